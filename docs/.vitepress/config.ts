@@ -176,9 +176,14 @@ export default {
                                     { text: "aws-lambda", link: "/reference/adapters/aws-lambda/index.md" },
                                 ]
                             },
+                            { text: "codecs", link: "/reference/codecs/index.md" },
+                            { text: "coercion", link: "/reference/coercion/index.md" },
                             { text: "core", link: "/reference/core/index.md" },
+                            { text: "debug", link: "/reference/debug/index.md" },
                             { text: "docs", link: "/reference/docs/index.md" },
+                            { text: "exceptions", link: "/reference/exceptions/index.md" },
                             { text: "helpers", link: "/reference/helpers/index.md" },
+                            { text: "introspection", link: "/reference/introspection/index.md" },
                             {
                                 text: "middleware",
                                 collapsed: true,
@@ -189,6 +194,7 @@ export default {
                                 ]
                             },
                             { text: "parameters", link: "/reference/parameters/index.md" },
+                            { text: "patch", link: "/reference/patch/index.md" },
                             { text: "responses", link: "/reference/responses/index.md" },
                             { text: "routing", link: "/reference/routing/index.md" },
                             { text: "types", link: "/reference/types/index.md" },
@@ -132,6 +132,7 @@ export async function toLambdaResponse(response: Response): Promise<APIGatewayPr
 
 /**
  * Creates a handler function for AWS Lambda that integrates with the provided App instance.
+ * The app is started up lazily on the first invocation.
  * @param app The App instance to handle incoming requests.
  * @returns A handler function for AWS Lambda.
  */
@@ -140,6 +141,7 @@ export function createHandler(app: App) {
         event: APIGatewayProxyEvent,
         context: Context
     ): Promise<APIGatewayProxyResult> => {
+        await app.startup()
         const req = toWebRequest(event)
         const res = await app.handle({ req, evt: event, ctx: context } as any)
         return toLambdaResponse(res)
@@ -0,0 +1,520 @@
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder("utf-8", { fatal: true })
+
+/** A growable byte buffer written by the encoders. */
+class ByteWriter {
+    bytes = new Uint8Array(256)
+    view = new DataView(this.bytes.buffer)
+    length = 0
+
+    /** Reserves `size` bytes at the end of the buffer and returns their offset. */
+    reserve(size: number): number {
+        if (this.length + size > this.bytes.length) {
+            const bytes = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size))
+            bytes.set(this.bytes)
+            this.bytes = bytes
+            this.view = new DataView(bytes.buffer)
+        }
+        const offset = this.length
+        this.length += size
+        return offset
+    }
+    u8(value: number): this {
+        this.view.setUint8(this.reserve(1), value)
+        return this
+    }
+    u16(value: number): this {
+        this.view.setUint16(this.reserve(2), value)
+        return this
+    }
+    u32(value: number): this {
+        this.view.setUint32(this.reserve(4), value)
+        return this
+    }
+    u64(value: bigint): this {
+        this.view.setBigUint64(this.reserve(8), value)
+        return this
+    }
+    i64(value: bigint): this {
+        this.view.setBigInt64(this.reserve(8), value)
+        return this
+    }
+    f64(value: number): this {
+        this.view.setFloat64(this.reserve(8), value)
+        return this
+    }
+    raw(bytes: Uint8Array): this {
+        this.bytes.set(bytes, this.reserve(bytes.length))
+        return this
+    }
+    result(): Uint8Array<ArrayBuffer> {
+        return this.bytes.slice(0, this.length)
+    }
+}
+
+/** A byte reader over the input of the decoders. */
+class ByteReader {
+    bytes: Uint8Array
+    view: DataView
+    offset = 0
+
+    constructor(bytes: Uint8Array) {
+        this.bytes = bytes
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    }
+    /** Advances by `size` bytes and returns their offset, throwing if the input is too short. */
+    take(size: number): number {
+        if (this.offset + size > this.bytes.length) throw new RangeError("Unexpected end of input.")
+        const offset = this.offset
+        this.offset += size
+        return offset
+    }
+    u8() {
+        return this.view.getUint8(this.take(1))
+    }
+    u16() {
+        return this.view.getUint16(this.take(2))
+    }
+    u32() {
+        return this.view.getUint32(this.take(4))
+    }
+    u64() {
+        return this.view.getBigUint64(this.take(8))
+    }
+    i64() {
+        return this.view.getBigInt64(this.take(8))
+    }
+    raw(size: number): Uint8Array {
+        const offset = this.take(size)
+        return this.bytes.slice(offset, offset + size)
+    }
+    text(size: number): string {
+        const offset = this.take(size)
+        return textDecoder.decode(this.bytes.subarray(offset, offset + size))
+    }
+}
+
+/** Converts a 64-bit integer to a number when it can be represented exactly. */
+function fromBigInt(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+        ? Number(value)
+        : value
+}
+
+/** Prepares values for encoding, calling `toJSON` like `JSON.stringify` except for dates. */
+function toEncodable(value: any): any {
+    if (
+        value !== null &&
+        typeof value === "object" &&
+        !(value instanceof Date) &&
+        typeof value.toJSON === "function"
+    )
+        return value.toJSON()
+    return value
+}
+
+/** Converts binary values to bytes, returning `undefined` for other values. */
+function toBytes(value: unknown): Uint8Array | undefined {
+    if (value instanceof Uint8Array) return value
+    if (value instanceof ArrayBuffer) return new Uint8Array(value)
+    if (ArrayBuffer.isView(value))
+        return new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    return undefined
+}
+
+/** Writes a MessagePack value. */
+function writeMsgPack(writer: ByteWriter, value: any) {
+    value = toEncodable(value)
+    if (value === null || value === undefined) writer.u8(0xc0)
+    else if (value === false) writer.u8(0xc2)
+    else if (value === true) writer.u8(0xc3)
+    else if (typeof value === "number") {
+        if (!Number.isSafeInteger(value)) writer.u8(0xcb).f64(value)
+        else if (value >= 0) {
+            if (value < 0x80) writer.u8(value)
+            else if (value < 0x100) writer.u8(0xcc).u8(value)
+            else if (value < 0x10000) writer.u8(0xcd).u16(value)
+            else if (value < 0x100000000) writer.u8(0xce).u32(value)
+            else writer.u8(0xcf).u64(BigInt(value))
+        } else {
+            if (value >= -0x20) writer.u8(value & 0xff)
+            else if (value >= -0x80) writer.u8(0xd0).u8(value & 0xff)
+            else if (value >= -0x8000) writer.u8(0xd1).u16(value & 0xffff)
+            else if (value >= -0x80000000) writer.u8(0xd2).u32(value >>> 0)
+            else writer.u8(0xd3).i64(BigInt(value))
+        }
+    } else if (typeof value === "bigint") {
+        if (value >= 0n && value < 1n << 64n) writer.u8(0xcf).u64(value)
+        else if (value < 0n && value >= -(1n << 63n)) writer.u8(0xd3).i64(value)
+        else throw new RangeError("BigInt out of the MessagePack 64-bit integer range.")
+    } else if (typeof value === "string") {
+        const bytes = textEncoder.encode(value)
+        if (bytes.length < 0x20) writer.u8(0xa0 | bytes.length)
+        else if (bytes.length < 0x100) writer.u8(0xd9).u8(bytes.length)
+        else if (bytes.length < 0x10000) writer.u8(0xda).u16(bytes.length)
+        else writer.u8(0xdb).u32(bytes.length)
+        writer.raw(bytes)
+    } else if (value instanceof Date) {
+        // timestamp extension type -1, in its 32-bit or 96-bit format
+        const ms = value.getTime()
+        const seconds = Math.floor(ms / 1000)
+        const nanoseconds = (ms - seconds * 1000) * 1e6
+        if (nanoseconds == 0 && seconds >= 0 && seconds < 0x100000000)
+            writer.u8(0xd6).u8(0xff).u32(seconds)
+        else writer.u8(0xc7).u8(12).u8(0xff).u32(nanoseconds).i64(BigInt(seconds))
+    } else if (toBytes(value)) {
+        const bytes = toBytes(value)!
+        if (bytes.length < 0x100) writer.u8(0xc4).u8(bytes.length)
+        else if (bytes.length < 0x10000) writer.u8(0xc5).u16(bytes.length)
+        else writer.u8(0xc6).u32(bytes.length)
+        writer.raw(bytes)
+    } else if (Array.isArray(value)) {
+        if (value.length < 0x10) writer.u8(0x90 | value.length)
+        else if (value.length < 0x10000) writer.u8(0xdc).u16(value.length)
+        else writer.u8(0xdd).u32(value.length)
+        for (const item of value) writeMsgPack(writer, item)
+    } else if (typeof value === "object") {
+        const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+        if (entries.length < 0x10) writer.u8(0x80 | entries.length)
+        else if (entries.length < 0x10000) writer.u8(0xde).u16(entries.length)
+        else writer.u8(0xdf).u32(entries.length)
+        for (const [key, item] of entries) {
+            writeMsgPack(writer, key)
+            writeMsgPack(writer, item)
+        }
+    } else {
+        throw new TypeError(`Cannot encode ${typeof value} as MessagePack.`)
+    }
+}
+
+/** Reads a MessagePack extension value, only the timestamp extension type is supported. */
+function readMsgPackExtension(reader: ByteReader, size: number): Date {
+    const type = reader.view.getInt8(reader.take(1))
+    if (type != -1) throw new TypeError(`Unsupported MessagePack extension type ${type}.`)
+    if (size == 4) return new Date(reader.u32() * 1000)
+    if (size == 8) {
+        const data = reader.u64()
+        return new Date(Number(data & 0x3ffffffffn) * 1000 + Number(data >> 34n) / 1e6)
+    }
+    if (size == 12) {
+        const nanoseconds = reader.u32()
+        return new Date(Number(reader.i64()) * 1000 + nanoseconds / 1e6)
+    }
+    throw new TypeError(`Invalid MessagePack timestamp of ${size} bytes.`)
+}
+
+/**
+ * Sets a decoded map entry as an own property, like `JSON.parse`,
+ * so that keys such as `__proto__` cannot replace the prototype of the object.
+ */
+function setEntry(object: Record<string, unknown>, key: string, value: unknown) {
+    Object.defineProperty(object, key, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+    })
+}
+
+/** Reads a MessagePack value. */
+function readMsgPack(reader: ByteReader): unknown {
+    const byte = reader.u8()
+    const array = (length: number) => Array.from({ length }, () => readMsgPack(reader))
+    const map = (length: number) => {
+        const object: Record<string, unknown> = {}
+        for (let i = 0; i < length; i++) {
+            const key = String(readMsgPack(reader))
+            setEntry(object, key, readMsgPack(reader))
+        }
+        return object
+    }
+    if (byte < 0x80) return byte
+    if (byte < 0x90) return map(byte & 0x0f)
+    if (byte < 0xa0) return array(byte & 0x0f)
+    if (byte < 0xc0) return reader.text(byte & 0x1f)
+    if (byte >= 0xe0) return byte - 0x100
+    switch (byte) {
+        case 0xc0:
+            return null
+        case 0xc2:
+            return false
+        case 0xc3:
+            return true
+        case 0xc4:
+            return reader.raw(reader.u8())
+        case 0xc5:
+            return reader.raw(reader.u16())
+        case 0xc6:
+            return reader.raw(reader.u32())
+        case 0xc7:
+            return readMsgPackExtension(reader, reader.u8())
+        case 0xc8:
+            return readMsgPackExtension(reader, reader.u16())
+        case 0xc9:
+            return readMsgPackExtension(reader, reader.u32())
+        case 0xca:
+            return reader.view.getFloat32(reader.take(4))
+        case 0xcb:
+            return reader.view.getFloat64(reader.take(8))
+        case 0xcc:
+            return reader.u8()
+        case 0xcd:
+            return reader.u16()
+        case 0xce:
+            return reader.u32()
+        case 0xcf:
+            return fromBigInt(reader.u64())
+        case 0xd0:
+            return reader.view.getInt8(reader.take(1))
+        case 0xd1:
+            return reader.view.getInt16(reader.take(2))
+        case 0xd2:
+            return reader.view.getInt32(reader.take(4))
+        case 0xd3:
+            return fromBigInt(reader.i64())
+        case 0xd4:
+            return readMsgPackExtension(reader, 1)
+        case 0xd5:
+            return readMsgPackExtension(reader, 2)
+        case 0xd6:
+            return readMsgPackExtension(reader, 4)
+        case 0xd7:
+            return readMsgPackExtension(reader, 8)
+        case 0xd8:
+            return readMsgPackExtension(reader, 16)
+        case 0xd9:
+            return reader.text(reader.u8())
+        case 0xda:
+            return reader.text(reader.u16())
+        case 0xdb:
+            return reader.text(reader.u32())
+        case 0xdc:
+            return array(reader.u16())
+        case 0xdd:
+            return array(reader.u32())
+        case 0xde:
+            return map(reader.u16())
+        case 0xdf:
+            return map(reader.u32())
+    }
+    throw new TypeError(`Invalid MessagePack byte 0x${byte.toString(16)}.`)
+}
+
+/**
+ * Encodes a value as MessagePack.
+ *
+ * Values are encoded like `JSON.stringify` would serialize them, except that
+ * dates are encoded with the timestamp extension type, binary data as binary,
+ * and bigints as 64-bit integers.
+ *
+ * @param value The value to encode.
+ * @returns The MessagePack bytes.
+ */
+export function encodeMsgPack(value: unknown): Uint8Array {
+    const writer = new ByteWriter()
+    writeMsgPack(writer, value)
+    return writer.result()
+}
+
+/**
+ * Decodes a MessagePack value.
+ *
+ * Maps are decoded as objects with string keys, timestamps as dates, and
+ * 64-bit integers outside of the safe integer range as bigints.
+ *
+ * @param bytes The MessagePack bytes.
+ * @returns The decoded value.
+ */
+export function decodeMsgPack(bytes: Uint8Array): unknown {
+    const reader = new ByteReader(bytes)
+    const value = readMsgPack(reader)
+    if (reader.offset != bytes.length)
+        throw new TypeError("Unexpected data after MessagePack value.")
+    return value
+}
+
+/** Writes the initial byte and argument of a CBOR data item. */
+function writeCBORHead(writer: ByteWriter, major: number, argument: number | bigint) {
+    if (argument < 24) writer.u8((major << 5) | Number(argument))
+    else if (argument < 0x100) writer.u8((major << 5) | 24).u8(Number(argument))
+    else if (argument < 0x10000) writer.u8((major << 5) | 25).u16(Number(argument))
+    else if (argument < 0x100000000) writer.u8((major << 5) | 26).u32(Number(argument))
+    else writer.u8((major << 5) | 27).u64(BigInt(argument))
+}
+
+/** Writes a CBOR data item. */
+function writeCBOR(writer: ByteWriter, value: any) {
+    value = toEncodable(value)
+    if (value === false) writer.u8(0xf4)
+    else if (value === true) writer.u8(0xf5)
+    else if (value === null) writer.u8(0xf6)
+    else if (value === undefined) writer.u8(0xf7)
+    else if (typeof value === "number") {
+        if (!Number.isSafeInteger(value)) writer.u8(0xfb).f64(value)
+        else if (value >= 0) writeCBORHead(writer, 0, value)
+        else writeCBORHead(writer, 1, -1 - value)
+    } else if (typeof value === "bigint") {
+        if (value >= 0n && value < 1n << 64n) writeCBORHead(writer, 0, value)
+        else if (value < 0n && value >= -(1n << 64n)) writeCBORHead(writer, 1, -1n - value)
+        else throw new RangeError("BigInt out of the CBOR 64-bit integer range.")
+    } else if (typeof value === "string") {
+        const bytes = textEncoder.encode(value)
+        writeCBORHead(writer, 3, bytes.length)
+        writer.raw(bytes)
+    } else if (value instanceof Date) {
+        // tag 1, epoch-based date and time
+        writeCBORHead(writer, 6, 1)
+        writeCBOR(writer, value.getTime() / 1000)
+    } else if (toBytes(value)) {
+        const bytes = toBytes(value)!
+        writeCBORHead(writer, 2, bytes.length)
+        writer.raw(bytes)
+    } else if (Array.isArray(value)) {
+        writeCBORHead(writer, 4, value.length)
+        for (const item of value) writeCBOR(writer, item)
+    } else if (typeof value === "object") {
+        const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+        writeCBORHead(writer, 5, entries.length)
+        for (const [key, item] of entries) {
+            writeCBOR(writer, key)
+            writeCBOR(writer, item)
+        }
+    } else {
+        throw new TypeError(`Cannot encode ${typeof value} as CBOR.`)
+    }
+}
+
+/** Decodes an IEEE 754 half-precision float. */
+function fromFloat16(bits: number): number {
+    const exponent = (bits >> 10) & 0x1f
+    const fraction = bits & 0x3ff
+    const sign = bits & 0x8000 ? -1 : 1
+    if (exponent == 0) return sign * fraction * 2 ** -24
+    if (exponent == 0x1f) return fraction ? NaN : sign * Infinity
+    return sign * (1 + fraction / 1024) * 2 ** (exponent - 15)
+}
+
+/** Reads the argument of a CBOR data item, `undefined` for indefinite lengths. */
+function readCBORArgument(reader: ByteReader, info: number): number | bigint | undefined {
+    if (info < 24) return info
+    if (info == 24) return reader.u8()
+    if (info == 25) return reader.u16()
+    if (info == 26) return reader.u32()
+    if (info == 27) return fromBigInt(reader.u64())
+    if (info == 31) return undefined
+    throw new TypeError(`Invalid CBOR additional information ${info}.`)
+}
+
+/** Marker of the end of indefinite-length CBOR items. */
+const CBOR_BREAK = Symbol("break")
+
+/** Reads a CBOR data item, the break marker is only allowed within indefinite-length items. */
+function readCBOR(reader: ByteReader, allowBreak = false): unknown {
+    const byte = reader.u8()
+    const major = byte >> 5
+    const info = byte & 0x1f
+    if (major == 7) {
+        switch (info) {
+            case 20:
+                return false
+            case 21:
+                return true
+            case 22:
+                return null
+            case 23:
+                return undefined
+            case 25:
+                return fromFloat16(reader.u16())
+            case 26:
+                return reader.view.getFloat32(reader.take(4))
+            case 27:
+                return reader.view.getFloat64(reader.take(8))
+            case 31:
+                if (allowBreak) return CBOR_BREAK
+                throw new TypeError("Unexpected CBOR break.")
+        }
+        throw new TypeError(`Unsupported CBOR simple value ${info}.`)
+    }
+    const argument = readCBORArgument(reader, info)
+    if (argument === undefined && (major < 2 || major == 6))
+        throw new TypeError(`Invalid indefinite length of CBOR major type ${major}.`)
+    const length = (): number => {
+        if (typeof argument !== "number") throw new RangeError("CBOR length out of range.")
+        return argument
+    }
+    // items of indefinite-length values, until the break marker
+    const items = function* () {
+        for (let item = readCBOR(reader, true); item !== CBOR_BREAK; item = readCBOR(reader, true))
+            yield item
+    }
+    switch (major) {
+        case 0:
+            return argument
+        case 1:
+            return fromBigInt(-1n - BigInt(argument!))
+        case 2:
+            if (argument !== undefined) return reader.raw(length())
+            return new Uint8Array(Array.from(items(), (chunk) => [...(chunk as Uint8Array)]).flat())
+        case 3:
+            if (argument !== undefined) return reader.text(length())
+            return Array.from(items()).join("")
+        case 4:
+            if (argument !== undefined)
+                return Array.from({ length: length() }, () => readCBOR(reader))
+            return Array.from(items())
+        case 5: {
+            const object: Record<string, unknown> = {}
+            for (let i = 0; argument === undefined || i < length(); i++) {
+                const key = readCBOR(reader, argument === undefined)
+                if (key === CBOR_BREAK) break
+                setEntry(object, String(key), readCBOR(reader))
+            }
+            return object
+        }
+        default: {
+            // tags, only date and time and bignum tags are interpreted
+            const item = readCBOR(reader)
+            if (argument === 0) return new Date(item as string)
+            if (argument === 1) return new Date((item as number) * 1000)
+            if (argument === 2 || argument === 3) {
+                let bignum = 0n
+                for (const byte of item as Uint8Array) bignum = (bignum << 8n) | BigInt(byte)
+                return argument === 2 ? bignum : -1n - bignum
+            }
+            return item
+        }
+    }
+}
+
+/**
+ * Encodes a value as CBOR.
+ *
+ * Values are encoded like `JSON.stringify` would serialize them, except that
+ * dates are encoded as epoch-based date and times, binary data as byte strings,
+ * and bigints as 64-bit integers.
+ *
+ * @param value The value to encode.
+ * @returns The CBOR bytes.
+ */
+export function encodeCBOR(value: unknown): Uint8Array {
+    const writer = new ByteWriter()
+    writeCBOR(writer, value)
+    return writer.result()
+}
+
+/**
+ * Decodes a CBOR data item.
+ *
+ * Maps are decoded as objects with string keys, date and time tags as dates,
+ * bignums and 64-bit integers outside of the safe integer range as bigints,
+ * and other tags as their tagged value.
+ *
+ * @param bytes The CBOR bytes.
+ * @returns The decoded value.
+ */
+export function decodeCBOR(bytes: Uint8Array): unknown {
+    const reader = new ByteReader(bytes)
+    const value = readCBOR(reader)
+    if (reader.offset != bytes.length) throw new TypeError("Unexpected data after CBOR value.")
+    return value
+}
@@ -0,0 +1,164 @@
+import { z } from "zod"
+
+/** The coerced value of an input and the issues of the strings that could not be converted. */
+export type Coerced = {
+    value: unknown
+    issues: z.core.$ZodIssue[]
+}
+
+/** Creates the issue of a string that cannot be converted to the expected type. */
+function conversionIssue(
+    value: string,
+    expected: "number" | "bigint" | "boolean" | "date" | "null",
+    path: PropertyKey[]
+): z.core.$ZodIssue {
+    return {
+        code: "invalid_type",
+        expected,
+        input: value,
+        path,
+        message: `Cannot convert "${value}" to ${expected == "null" ? "null" : `a ${expected}`}.`,
+    }
+}
+
+/** Converts a string to the type of a leaf schema, returning `undefined` if not applicable. */
+function convertString(value: string, schema: z.ZodType, path: PropertyKey[]): Coerced | undefined {
+    if (schema instanceof z.ZodNumber) {
+        const number = Number(value)
+        return value.trim() !== "" && !Number.isNaN(number)
+            ? { value: number, issues: [] }
+            : { value, issues: [conversionIssue(value, "number", path)] }
+    }
+    if (schema instanceof z.ZodBigInt) {
+        return /^\s*[+-]?\d+\s*$/.test(value)
+            ? { value: BigInt(value.trim()), issues: [] }
+            : { value, issues: [conversionIssue(value, "bigint", path)] }
+    }
+    if (schema instanceof z.ZodBoolean) {
+        return value == "true" || value == "false"
+            ? { value: value == "true", issues: [] }
+            : { value, issues: [conversionIssue(value, "boolean", path)] }
+    }
+    if (schema instanceof z.ZodDate) {
+        // integers are timestamps in milliseconds, other strings are parsed as dates
+        const date = /^-?\d+$/.test(value) ? new Date(Number(value)) : new Date(value)
+        return value.trim() !== "" && !Number.isNaN(date.getTime())
+            ? { value: date, issues: [] }
+            : { value, issues: [conversionIssue(value, "date", path)] }
+    }
+    if (schema instanceof z.ZodNull) {
+        return value == "null"
+            ? { value: null, issues: [] }
+            : { value, issues: [conversionIssue(value, "null", path)] }
+    }
+    if (schema instanceof z.ZodLiteral) {
+        const literal = [...schema.values].find((item) => String(item) === value)
+        return { value: literal !== undefined ? literal : value, issues: [] }
+    }
+    if (schema instanceof z.ZodEnum) {
+        const option = (schema.options as unknown[]).find((item) => String(item) === value)
+        return { value: option !== undefined ? option : value, issues: [] }
+    }
+    return undefined
+}
+
+/**
+ * Converts the strings of an input to the types expected by a schema, such as the values of
+ * path, query, header and cookie parameters and of form fields. Wrappers are walked through,
+ * including optional, nullable, default, catch, readonly, lazy and the input of pipes,
+ * union options are tried in order and arrays and objects are coerced item by item.
+ * Values that are not strings are left unchanged.
+ *
+ * @param value The input to coerce.
+ * @param schema The schema the input is validated against.
+ * @param path The path of the input, prefixed to the paths of issues.
+ * @returns The coerced value and the issues of the strings that could not be converted.
+ */
+export function coerce(value: unknown, schema: z.ZodType, path: PropertyKey[] = []): Coerced {
+    if (value === undefined) return { value, issues: [] }
+    if (
+        schema instanceof z.ZodOptional ||
+        schema instanceof z.ZodDefault ||
+        schema instanceof z.ZodPrefault ||
+        schema instanceof z.ZodNonOptional ||
+        schema instanceof z.ZodCatch ||
+        schema instanceof z.ZodReadonly ||
+        schema instanceof z.ZodLazy
+    )
+        return coerce(value, schema.unwrap() as z.ZodType, path)
+    if (schema instanceof z.ZodNullable)
+        return value === "null"
+            ? { value: null, issues: [] }
+            : coerce(value, schema.unwrap() as z.ZodType, path)
+    if (schema instanceof z.ZodPipe) return coerce(value, schema.in as z.ZodType, path)
+    if (schema instanceof z.ZodUnion) {
+        // the first option that accepts its coerced value wins, otherwise the union reports its issues
+        for (const option of schema.options as z.ZodType[]) {
+            const coerced = coerce(value, option, path)
+            if (coerced.issues.length) continue
+            try {
+                if (option.safeParse(coerced.value).success) return coerced
+            } catch {
+                // options with async refinements are checked by the union itself
+            }
+        }
+        return { value, issues: [] }
+    }
+    if (schema instanceof z.ZodArray) {
+        if (!Array.isArray(value)) return { value, issues: [] }
+        const items = value.map((item, i) =>
+            coerce(item, schema.element as z.ZodType, [...path, i])
+        )
+        return {
+            value: items.map((item) => item.value),
+            issues: items.flatMap((item) => item.issues),
+        }
+    }
+    if (schema instanceof z.ZodObject) {
+        if (value === null || typeof value !== "object" || Array.isArray(value))
+            return { value, issues: [] }
+        const shape = schema.shape as Record<string, z.ZodType>
+        const result: Record<string, unknown> = {}
+        const issues: z.core.$ZodIssue[] = []
+        for (const [key, item] of Object.entries(value)) {
+            if (!Object.hasOwn(shape, key)) {
+                result[key] = item
+                continue
+            }
+            const coerced = coerce(item, shape[key], [...path, key])
+            result[key] = coerced.value
+            issues.push(...coerced.issues)
+        }
+        return { value: result, issues }
+    }
+    if (typeof value !== "string") return { value, issues: [] }
+    return convertString(value, schema, path) ?? { value, issues: [] }
+}
+
+/**
+ * Coerces an input with `coerce` and validates it against a schema asynchronously,
+ * supporting async refinements and transforms.
+ * Validation issues at the path of a string that could not be converted are replaced
+ * by the issue of the conversion, which is more precise for string inputs.
+ *
+ * @param schema The schema to validate against.
+ * @param value The input to coerce and validate.
+ * @returns The result of the validation.
+ */
+export async function safeParseCoerced<T extends z.ZodType>(
+    schema: T,
+    value: unknown
+): Promise<z.ZodSafeParseResult<z.output<T>>> {
+    const coerced = coerce(value, schema)
+    const parseOut = await schema.safeParseAsync(coerced.value)
+    if (parseOut.success || !coerced.issues.length) return parseOut
+    const pathKey = (issue: z.core.$ZodIssue) => issue.path.map(String).join("\0")
+    const converted = new Set(coerced.issues.map(pathKey))
+    return {
+        success: false,
+        error: new z.ZodError([
+            ...coerced.issues,
+            ...parseOut.error.issues.filter((issue) => !converted.has(pathKey(issue))),
+        ]),
+    } as z.ZodSafeParseResult<z.output<T>>
+}
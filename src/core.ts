@@ -14,30 +14,108 @@ import type {
 } from "openapi3-ts/oas31"
 import { z } from "zod"
 
+import { createDebugResponse } from "./debug"
 import { createSwaggerHTML, createRedocHTML } from "./docs"
-import { createResolveLater, fixPathSlashes, searchParamsToQueries } from "./helpers"
-import { parseCookie, resolveArgs, Responds } from "./parameters"
-import { JSONResponse, HTMLResponse } from "./responses"
-import { Route, RouteMatcher } from "./routing"
+import {
+    AppValidationError,
+    findExceptionHandler,
+    HTTP_STATUS_PHRASES,
+    HTTPException,
+} from "./exceptions"
+import { createResolveLater, fixPathSlashes, runTeardowns, searchParamsToQueries } from "./helpers"
+import { introspectRoute } from "./introspection"
+import { Depends, parseCookie, resolveArgs, Responds } from "./parameters"
+import { JSONResponse, HTMLResponse, ProblemJSONResponse } from "./responses"
+import { findUndeclaredParameters, Route, RouteMatcher, validateRoute } from "./routing"
 import type {
     ArgsOf,
+    Awaitable,
     DependencyHandler,
+    DependencyResolution,
+    DependencyScope,
     DisallowBaseDependencyParameters,
     DisallowBaseParameters,
     DisallowDependencyParameters,
     DisallowRuntimeParameters,
     ErrorHandler,
+    ExceptionHandlers,
+    ExceptionHandlersInit,
     FlattenParameters,
     GenericRouteParameters,
     HTTPMethod,
     ImplicitParameters,
+    LifecycleHooks,
+    Lifespan,
+    LifespanHandler,
+    MethodNotAllowedHandler,
     MiddlewareHandler,
+    NotFoundHandler,
     PathStringOf,
+    ResolveArgsError,
+    ResolveArgsInput,
     ResponseClass,
+    RouteInfo,
     RouteParameters,
+    StrictParameters,
+    Teardown,
     UnboundRoute,
 } from "./types"
 
+const validationErrorResponses: { default?: ResponseConfig; problem?: ResponseConfig } = {}
+
+/**
+ * Gets the default validation error response schema of the given error format.
+ * Schemas are created once and shared, so that defaults can be told apart from declared ones.
+ */
+function getValidationErrorResponse(format: "default" | "problem"): ResponseConfig {
+    const issueSchema = z.object({
+        location: z.string(),
+        name: z.string(),
+        issues: z.array(z.any()),
+    })
+    if (format == "problem")
+        return (validationErrorResponses.problem ??= Responds(
+            z.object({
+                type: z.string(),
+                title: z.string(),
+                status: z.number(),
+                detail: z.string(),
+                instance: z.string(),
+                errors: z.array(issueSchema),
+            }),
+            { description: "Validation Error", mediaType: "application/problem+json" }
+        ))
+    return (validationErrorResponses.default ??= Responds(
+        z.object({ detail: z.array(issueSchema) }),
+        { description: "Validation Error", mediaType: "application/json" }
+    ))
+}
+
+/**
+ * Runs lifecycle hooks in registration order.
+ *
+ * @param hooks The hooks to run.
+ * @param args The arguments passed to each hook.
+ * @param safe If `true`, errors thrown by hooks are logged instead of propagated.
+ */
+async function runHooks<A extends any[]>(
+    hooks: ((...args: A) => Awaitable<void>)[],
+    args: A,
+    safe: boolean = false
+): Promise<void> {
+    for (const hook of hooks) {
+        if (!safe) {
+            await hook(...args)
+            continue
+        }
+        try {
+            await hook(...args)
+        } catch (e) {
+            console.error(e)
+        }
+    }
+}
+
 /**
  * Type extractor for the base route parameters of a `Router` or `App`.
  *
@@ -53,12 +131,14 @@ export function Base<B extends Router>(): B extends Router<infer PsBase, infer P
 export class Dependency<Ps extends GenericRouteParameters<Ps> = {}, R = unknown> {
     name?: string
     useCache: boolean
+    scope: DependencyScope
     parameters: Ps
     handle: DependencyHandler<ArgsOf<Ps>, R>
 
     constructor(init: {
         name?: string
         useCache?: boolean
+        scope?: DependencyScope
         parameters?: Ps &
             DisallowDependencyParameters<ImplicitParameters<Ps>> &
             DisallowRuntimeParameters<Ps>
@@ -66,6 +146,7 @@ export class Dependency<Ps extends GenericRouteParameters<Ps> = {}, R = unknown>
     }) {
         this.name = init.name
         this.useCache = init.useCache ?? true
+        this.scope = init.scope ?? "request"
         this.parameters = init.parameters ?? ({} as Ps)
         this.handle = init.handle
     }
@@ -95,6 +176,12 @@ export class Router<
     defaultResponseClass: ResponseClass
     parameters: PsThis
     middleware: Middleware[]
+    exceptionHandlers: ExceptionHandlers
+    errorHandler?: ErrorHandler
+    notFoundHandler?: NotFoundHandler
+    methodNotAllowedHandler?: MethodNotAllowedHandler
+    strictParameters?: StrictParameters
+    dependencies: Dependency<any, any>[]
     routeMatcher: RouteMatcher
 
     constructor(init: {
@@ -106,6 +193,12 @@ export class Router<
         responses?: Record<number, ResponseConfig>
         defaultResponseClass?: ResponseClass
         middleware?: Middleware[]
+        exceptionHandlers?: ExceptionHandlersInit
+        errorHandler?: ErrorHandler
+        notFoundHandler?: NotFoundHandler
+        methodNotAllowedHandler?: MethodNotAllowedHandler
+        strictParameters?: StrictParameters
+        dependencies?: Dependency<any, any>[]
         parameters?: PsThis &
             DisallowDependencyParameters<ImplicitParameters<PsThis>> &
             DisallowBaseDependencyParameters<ImplicitParameters<PsBase>> &
@@ -119,20 +212,13 @@ export class Router<
         this.defaultResponseClass = init.defaultResponseClass ?? JSONResponse
         this.parameters = init.parameters ?? ({} as PsThis)
         this.middleware = init.middleware ?? []
-        this.responses = init.responses ?? {
-            422: Responds(
-                z.object({
-                    detail: z.array(
-                        z.object({
-                            location: z.string(),
-                            name: z.string(),
-                            issues: z.array(z.any()),
-                        })
-                    ),
-                }),
-                { description: "Validation Error", mediaType: "application/json" }
-            ),
-        }
+        this.exceptionHandlers = new Map(init.exceptionHandlers)
+        this.errorHandler = init.errorHandler
+        this.notFoundHandler = init.notFoundHandler
+        this.methodNotAllowedHandler = init.methodNotAllowedHandler
+        this.strictParameters = init.strictParameters
+        this.dependencies = init.dependencies ?? []
+        this.responses = init.responses ?? { 422: getValidationErrorResponse("default") }
         this.security = init.security
         this.routeMatcher = new RouteMatcher()
     }
@@ -198,8 +284,14 @@ export class Router<
             includeInSchema: this.includeInSchema,
             responseClass: this.defaultResponseClass,
             security: this.security,
+            strictParameters: this.strictParameters,
             ...unboundRoute,
             tags: [...this.tags, ...(unboundRoute.tags ?? [])],
+            dependencies: [...this.dependencies, ...(unboundRoute.dependencies ?? [])],
+            exceptionHandlers: new Map([
+                ...this.routeExceptionHandlers(),
+                ...(unboundRoute.exceptionHandlers ?? []),
+            ]),
             responses: {
                 ...this.responses,
                 ...unboundRoute.responses,
@@ -213,6 +305,14 @@ export class Router<
         return route
     }
 
+    /**
+     * Returns the exception handlers carried onto the routes of the router,
+     * which are consulted before the error handling of the app.
+     */
+    routeExceptionHandlers(): ExceptionHandlers {
+        return this.exceptionHandlers
+    }
+
     include<Ps extends RouteParameters>(
         prefix: PathStringOf<Omit<FlattenParameters<Ps>, keyof FlattenParameters<PsThis & PsBase>>>,
         router: Router<PsThis & PsBase, Ps>
@@ -226,9 +326,20 @@ export class Router<
                 },
                 path: this.rootPath + prefix + route.path,
                 security: route.security ?? this.security,
+                strictParameters: route.strictParameters ?? this.strictParameters,
+                exceptionHandlers: new Map([
+                    ...this.routeExceptionHandlers(),
+                    ...route.exceptionHandlers,
+                ]),
+                dependencies: [...this.dependencies, ...route.dependencies],
+                errorHandler: route.errorHandler ?? router.errorHandler,
             })
             this.routeMatcher.push(includeRoute)
-            this.routeMatcher.set(prefix, { middleware: router.middleware })
+            this.routeMatcher.set(prefix, {
+                middleware: router.middleware,
+                notFoundHandler: router.notFoundHandler,
+                methodNotAllowedHandler: router.methodNotAllowedHandler,
+            })
         }
     }
 }
@@ -249,7 +360,20 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
     swaggerUrl: `/${string}` | null
     redocUrl: `/${string}` | null
     errorHandler: ErrorHandler
+    notFoundHandler: NotFoundHandler
+    methodNotAllowedHandler: MethodNotAllowedHandler
+    problemDetails: boolean
+    debug: boolean
+    hooks: LifecycleHooks
+    lifespan?: Lifespan
+    onStartup: LifespanHandler[]
+    onShutdown: LifespanHandler[]
+    dependencyCache: Map<Dependency<any, any>, Promise<DependencyResolution>>
+    dependencyOverrides: Map<Dependency<any, any>, Dependency<any, any>>
     private _openapi?: OpenAPIObject
+    private _startup?: Promise<void>
+    private _shutdown?: Promise<void>
+    private _lifespan?: AsyncGenerator<unknown, unknown, any>
 
     constructor(
         init: (`/${string}` extends PathStringOf<PsThis>
@@ -274,7 +398,18 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
             redocUrl?: `/${string}` | null
             defaultResponseClass?: ResponseClass
             errorHandler?: ErrorHandler
+            exceptionHandlers?: ExceptionHandlersInit
+            notFoundHandler?: NotFoundHandler
+            methodNotAllowedHandler?: MethodNotAllowedHandler
+            strictParameters?: StrictParameters
+            problemDetails?: boolean
+            debug?: boolean
+            hooks?: Partial<LifecycleHooks>
+            lifespan?: Lifespan
+            onStartup?: LifespanHandler[]
+            onShutdown?: LifespanHandler[]
             middleware?: Middleware[]
+            dependencies?: Dependency<any, any>[]
             parameters?: PsThis &
                 DisallowDependencyParameters<ImplicitParameters<PsThis>> &
                 DisallowRuntimeParameters<PsThis>
@@ -306,16 +441,45 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
                 console.error(e)
                 return new Response("Internal Server Error", { status: 500 })
             })
+        this.problemDetails = init.problemDetails ?? false
+        this.debug = init.debug ?? false
+        this.hooks = {
+            onRequest: [],
+            onRouteMatched: [],
+            onArgsResolved: [],
+            onResponse: [],
+            onError: [],
+            ...init.hooks,
+        }
+        this.lifespan = init.lifespan
+        this.onStartup = init.onStartup ?? []
+        this.onShutdown = init.onShutdown ?? []
+        this.dependencyCache = new Map()
+        this.dependencyOverrides = new Map()
+        this.notFoundHandler =
+            init.notFoundHandler ??
+            (({ req }: ArgsOf<{}>) => this.createErrorResponse(req, 404, { detail: "Not Found" }))
+        this.methodNotAllowedHandler =
+            init.methodNotAllowedHandler ??
+            (({ req }: ArgsOf<{}>, allow: string[]) =>
+                this.createErrorResponse(req, 405, {
+                    detail: "Method Not Allowed",
+                    headers: { allow: allow.join(", ") },
+                }))
 
+        // documentation routes are requested by browsers with cookies and cache busting queries,
+        // so undeclared parameters are never rejected for them
         if (this.openapiUrl) {
             this.get(this.openapiUrl, {
                 includeInSchema: false,
+                strictParameters: false,
                 responseClass: JSONResponse,
                 handle: (() => this.openapi()) as any,
             })
             if (this.swaggerUrl)
                 this.get(this.swaggerUrl, {
                     includeInSchema: false,
+                    strictParameters: false,
                     responseClass: HTMLResponse,
                     handle: (() =>
                         createSwaggerHTML(fixPathSlashes(this.rootPath + this.openapiUrl!), {
@@ -325,6 +489,7 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
             if (this.redocUrl)
                 this.get(this.redocUrl, {
                     includeInSchema: false,
+                    strictParameters: false,
                     responseClass: HTMLResponse,
                     handle: (() =>
                         createRedocHTML(fixPathSlashes(this.rootPath + this.openapiUrl!), {
@@ -334,6 +499,14 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
         }
     }
 
+    /**
+     * The exception handlers of the app are not carried onto its routes,
+     * they are consulted after the handlers and `errorHandler` of the routers.
+     */
+    routeExceptionHandlers(): ExceptionHandlers {
+        return new Map()
+    }
+
     openapi(): OpenAPIObject {
         const rootPathRegex = new RegExp(`^${this.rootPath}`)
         if (this._openapi) return this._openapi
@@ -341,6 +514,14 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
         for (const route of this.routeMatcher) {
             const routeOpenAPI = route.openapi()
             routeOpenAPI.path = fixPathSlashes(routeOpenAPI.path.replace(rootPathRegex, ""))
+            if (
+                this.problemDetails &&
+                routeOpenAPI.responses[422] === getValidationErrorResponse("default")
+            )
+                routeOpenAPI.responses = {
+                    ...routeOpenAPI.responses,
+                    422: getValidationErrorResponse("problem"),
+                }
             if (route.includeInSchema) registry.registerPath(routeOpenAPI)
         }
         const generator = new OpenApiGeneratorV31(registry.definitions)
@@ -362,51 +543,207 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
         return this._openapi
     }
 
+    /**
+     * Introspects all routes, including the middleware applied to them by routers
+     * and their flattened dependency trees. Export the dependency graph with
+     * `toMermaid` or `toDOT` from `cerces/introspection`.
+     *
+     * @returns The route table.
+     */
+    introspect(): RouteInfo[] {
+        return [...this.routeMatcher].map((route) => {
+            const [, , middleware] = this.routeMatcher.match(route.method, route.path)
+            return introspectRoute(route, middleware)
+        })
+    }
+
+    /**
+     * Statically validates all routes and their dependency trees.
+     * Runs automatically on startup in debug mode.
+     *
+     * @throws {AppValidationError} Listing all the problems found.
+     */
+    validate(): void {
+        const problems = [...this.routeMatcher].flatMap((route) => validateRoute(route))
+        if (problems.length) throw new AppValidationError(problems)
+    }
+
+    /**
+     * Runs the startup code of `lifespan` and the `onStartup` handlers.
+     * Startup runs only once, concurrent calls wait for the same startup to complete,
+     * and a failed startup is retried on the next call. A shutdown still running is awaited first.
+     */
+    startup(): Promise<void> {
+        if (this._startup) return this._startup
+        const startup: Promise<void> = (async () => {
+            await this._shutdown?.catch(() => {})
+            if (this.debug) this.validate()
+            if (this.lifespan) {
+                const lifespan = this.lifespan(this)
+                await lifespan.next()
+                this._lifespan = lifespan
+            }
+            await runHooks(this.onStartup, [])
+        })().catch((e) => {
+            if (this._startup === startup) this._startup = undefined
+            throw e
+        })
+        this._startup = startup
+        return startup
+    }
+
+    /**
+     * Runs the `onShutdown` handlers and the shutdown code of `lifespan`,
+     * if startup has completed. The app can be started up again afterwards.
+     * Concurrent calls wait for the same shutdown to complete.
+     */
+    async shutdown(): Promise<void> {
+        const startup = this._startup
+        if (!startup) return await this._shutdown
+        this._startup = undefined
+        // startups called meanwhile wait for this shutdown, so the lifespan is not replaced
+        const shutdown: Promise<void> = (async () => {
+            try {
+                await startup
+            } catch {
+                return
+            }
+            await this.invalidateDependency()
+            await runHooks(this.onShutdown, [])
+            const lifespan = this._lifespan
+            this._lifespan = undefined
+            await lifespan?.next()
+        })().finally(() => {
+            if (this._shutdown === shutdown) this._shutdown = undefined
+        })
+        this._shutdown = shutdown
+        return await shutdown
+    }
+
+    /**
+     * Invalidates the resolved values of app-scoped dependencies and runs their teardowns,
+     * so that they are resolved again on their next use. Teardown errors are logged.
+     *
+     * @param dependency The dependency to invalidate, or all dependencies if omitted.
+     */
+    async invalidateDependency(dependency?: Dependency<any, any>): Promise<void> {
+        // dependents are cached before their dependencies, so they are torn down first
+        const pending = dependency
+            ? [this.dependencyCache.get(dependency)]
+            : [...this.dependencyCache.values()]
+        if (dependency) this.dependencyCache.delete(dependency)
+        else this.dependencyCache.clear()
+        for (const resolution of pending) {
+            const teardowns = (await resolution?.catch(() => undefined))?.teardowns ?? []
+            for (const e of await runTeardowns(teardowns)) console.error(e)
+        }
+    }
+
     async handle(baseArgs: ArgsOf<{}>): Promise<Response> {
         const { req } = baseArgs
+        // request state passed to hooks and shown on the development error page
+        const state: { route?: Route<any, any, any>; args?: Record<string, unknown> } = {}
+        const teardowns: Teardown[] = []
+        let res: Response
         try {
+            await runHooks(this.hooks.onRequest, [baseArgs])
             const url = new URL(req.url)
-            const [route, params, middleware] = this.routeMatcher.match(req.method, url.pathname)
+            const [route, params, middleware, fallback] = this.routeMatcher.match(
+                req.method,
+                url.pathname
+            )
+            if (route) {
+                state.route = route
+                await runHooks(this.hooks.onRouteMatched, [baseArgs, route])
+            }
             const cookies = parseCookie(req.headers.get("Cookie") ?? "")
             const queries = searchParamsToQueries(url.searchParams)
             const nextMap: Record<string, () => Promise<Response>> = {}
 
             let next: () => Promise<Response>
             if (route === undefined) {
-                next = async () => new JSONResponse({ detail: "Not Found" }, { status: 404 })
-            } else if (route === null) {
                 next = async () =>
-                    new JSONResponse(
-                        { detail: "Method Not Allowed" },
-                        { status: 405, headers: params }
-                    )
+                    await (fallback.notFoundHandler ?? this.notFoundHandler)(baseArgs)
+            } else if (route === null) {
+                next = async () => {
+                    const allow = params.allow.split(", ")
+                    const res = await (
+                        fallback.methodNotAllowedHandler ?? this.methodNotAllowedHandler
+                    )(baseArgs, allow)
+                    if (res.headers.has("Allow")) return res
+                    try {
+                        res.headers.set("Allow", params.allow)
+                        return res
+                    } catch {
+                        // responses such as `Response.error()`, redirects and fetched responses
+                        // have immutable headers, they are copied with a network error becoming a 405
+                        const headers = new Headers(res.headers)
+                        headers.set("Allow", params.allow)
+                        return new Response(res.body, {
+                            status: res.status || 405,
+                            statusText: res.statusText,
+                            headers,
+                        })
+                    }
+                }
             } else {
                 next = async () => {
                     const [resolve, later] = createResolveLater()
                     try {
-                        const parseInfo = await resolveArgs<RouteParameters>(route.parameters, {
+                        const input: ResolveArgsInput = {
                             baseArgs: baseArgs,
                             later: later,
+                            dependencyCache: this.dependencyCache,
+                            dependencyOverrides: this.dependencyOverrides,
+                            teardowns: teardowns,
+                            strictParameters: route.strictParameters,
                             rawParameters: {
                                 params,
                                 queries,
                                 cookies,
                             },
-                        })
+                        }
+                        const cache = new WeakMap()
+                        // side-effect dependencies run first and their values are not injected
+                        const dependenciesInfo = await resolveArgs(
+                            Object.fromEntries(route.dependencies.map((d, i) => [i, Depends(d)])),
+                            input,
+                            cache
+                        )
+                        const parseInfo = await resolveArgs<RouteParameters>(
+                            route.parameters,
+                            input,
+                            cache
+                        )
+                        parseInfo.success &&= dependenciesInfo.success
+                        parseInfo.errors.unshift(...dependenciesInfo.errors)
+                        if (route.strictParameters) {
+                            const undeclared = findUndeclaredParameters(route, input)
+                            parseInfo.success &&= !undeclared.length
+                            parseInfo.errors.push(...undeclared)
+                        }
+                        state.args = parseInfo.args
+                        await runHooks(this.hooks.onArgsResolved, [baseArgs, route, parseInfo])
                         let res: Response
                         if (parseInfo.success) {
                             res = await route.handle({ ...baseArgs, ...parseInfo.args })
                             if (!(res instanceof Response))
                                 res = new route.responseClass(res, { status: route.statusCode })
                         } else {
-                            res = new JSONResponse({ detail: parseInfo.errors }, { status: 422 })
+                            res = this.createErrorResponse(req, 422, {
+                                detail: "Request validation failed.",
+                                errors: parseInfo.errors,
+                            })
                         }
                         resolve(res)
                         return res
                     } catch (e: any) {
-                        if (e instanceof Response) {
-                            resolve(e)
-                            return e
+                        const res = await this.resolveException(baseArgs, e, route)
+                        if (res) {
+                            if (!(e instanceof Response))
+                                await runHooks(this.hooks.onError, [baseArgs, e, res], true)
+                            resolve(res)
+                            return res
                         }
                         throw e
                     }
@@ -417,14 +754,98 @@ export class App<PsThis extends GenericRouteParameters<PsThis> = {}> extends Rou
                 next = async () => await middleware[i].handle(baseArgs, nextMap[i])
                 nextMap[i - 1] = next
             }
-            return await next()
+            res = await next()
         } catch (e) {
-            if (e instanceof Response) return e
-            return await this.errorHandler(baseArgs, e)
+            const resolved = await this.resolveException(baseArgs, e)
+            if (resolved) {
+                res = resolved
+            } else if (this.debug) {
+                console.error(e)
+                res = createDebugResponse({ error: e, req, ...state })
+            } else {
+                res = await this.errorHandler(baseArgs, e)
+            }
+            if (!(e instanceof Response))
+                await runHooks(this.hooks.onError, [baseArgs, e, res], true)
+        }
+        await runHooks(this.hooks.onResponse, [baseArgs, res, state.route], true)
+        if (teardowns.length) {
+            const teardown = (async () => {
+                for (const e of await runTeardowns(teardowns)) {
+                    console.error(e)
+                    await runHooks(this.hooks.onError, [baseArgs, e, res], true)
+                }
+            })()
+            const ctx = (baseArgs as { ctx?: { waitUntil?: (p: Promise<unknown>) => void } }).ctx
+            if (typeof ctx?.waitUntil === "function") ctx.waitUntil(teardown)
+            else await teardown
+        }
+        return res
+    }
+
+    /**
+     * Resolves a thrown error into a response using thrown responses, the exception handlers
+     * and `errorHandler` of the routers of the matched route, the exception handlers of the app,
+     * or the default `HTTPException` response.
+     *
+     * @returns The resolved response, or `undefined` if the error is left for `errorHandler`.
+     */
+    async resolveException(
+        baseArgs: ArgsOf<{}>,
+        e: unknown,
+        route?: Route<any, any, any>
+    ): Promise<Response | undefined> {
+        if (e instanceof Response) return e
+        if (route) {
+            const handler = findExceptionHandler(route.exceptionHandlers, e)
+            if (handler) return await handler(baseArgs, e)
+            if (route.errorHandler) return await route.errorHandler(baseArgs, e)
         }
+        const handler = findExceptionHandler(this.exceptionHandlers, e)
+        if (handler) return await handler(baseArgs, e)
+        if (e instanceof HTTPException)
+            return this.createErrorResponse(baseArgs.req, e.status, {
+                detail: e.detail,
+                errors: e.errors,
+                headers: e.headers,
+            })
+        return undefined
+    }
+
+    /**
+     * Creates an error response in the error format of the app, either a `{ detail }` JSON
+     * body, or an RFC 9457 problem details document if `problemDetails` is enabled.
+     *
+     * @param req The request the error response is for, its path is used as `instance`.
+     * @param status The status code of the error response.
+     * @param init The error detail, validation errors, and headers of the error response.
+     * @returns The error response.
+     */
+    createErrorResponse(
+        req: Request,
+        status: number,
+        init: { detail: any; errors?: ResolveArgsError[]; headers?: HeadersInit }
+    ): Response {
+        if (!this.problemDetails)
+            return new JSONResponse(
+                { detail: init.errors ?? init.detail },
+                { status, headers: init.headers }
+            )
+        return new ProblemJSONResponse(
+            {
+                type: "about:blank",
+                title: HTTP_STATUS_PHRASES[status] ?? "Unknown Error",
+                status: status,
+                detail: typeof init.detail === "string" ? init.detail : JSON.stringify(init.detail),
+                instance: new URL(req.url).pathname,
+                errors: init.errors,
+            },
+            { status, headers: init.headers }
+        )
     }
 
-    fetch = (req: Request, ...args: any[]) => {
+    fetch = async (req: Request, ...args: any[]) => {
+        await this.startup()
         if (args.length === 2)
             // cf-workers
             return this.handle({ req, env: args[0], ctx: args[1] } as ArgsOf<{}>)
@@ -0,0 +1,152 @@
+import { HTMLResponse, JSONResponse } from "./responses"
+
+/** Information about a failed request shown on the development error page. */
+export type DebugInfo = {
+    error: unknown
+    req: Request
+    route?: { method: string; path: string }
+    args?: Record<string, unknown>
+}
+
+/** Escapes a string for safe interpolation in HTML. */
+export function escapeHTML(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;")
+}
+
+/**
+ * Determines if an `Accept` header prefers JSON over HTML.
+ * Media ranges are compared by their quality values, ties are resolved in favor of HTML.
+ *
+ * @param accept The `Accept` header value.
+ * @returns `true` if JSON is preferred, `false` otherwise.
+ */
+export function prefersJSON(accept?: string | null): boolean {
+    let jsonQuality = 0
+    let htmlQuality = 0
+    for (const range of (accept ?? "").split(",")) {
+        const [mediaType, ...params] = range.split(";").map((s) => s.trim().toLowerCase())
+        const qParam = params.find((p) => p.startsWith("q="))
+        const quality = qParam ? Number(qParam.slice(2)) || 0 : 1
+        if (mediaType == "application/json" || mediaType.endsWith("+json"))
+            jsonQuality = Math.max(jsonQuality, quality)
+        else if (mediaType == "text/html") htmlQuality = Math.max(htmlQuality, quality)
+    }
+    return jsonQuality > htmlQuality
+}
+
+/** Serializes a value for display, falling back to `String` if not JSON serializable. */
+function stringifyValue(value: unknown): string {
+    try {
+        return JSON.stringify(value, null, 2) ?? String(value)
+    } catch {
+        return String(value)
+    }
+}
+
+/** Converts a value to its JSON representation, falling back to `String` if not serializable. */
+function toSerializable(value: unknown): unknown {
+    try {
+        return value === undefined ? null : JSON.parse(JSON.stringify(value))
+    } catch {
+        return String(value)
+    }
+}
+
+/**
+ * Creates the JSON body of the development error page.
+ * @param info The information about the failed request.
+ * @returns The JSON serializable error report.
+ */
+export function createDebugReport(info: DebugInfo) {
+    const { error, req, route, args } = info
+    return {
+        error: {
+            name: error instanceof Error ? error.name : typeof error,
+            message: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? (error.stack?.split("\n") ?? []) : [],
+        },
+        request: {
+            method: req.method,
+            url: req.url,
+            headers: Object.fromEntries(req.headers.entries()),
+        },
+        route: route ? { method: route.method, path: route.path } : null,
+        parameters: args
+            ? Object.fromEntries(Object.entries(args).map(([k, v]) => [k, toSerializable(v)]))
+            : null,
+    }
+}
+
+/**
+ * Creates the HTML for the development error page.
+ * @param info The information about the failed request.
+ * @returns The HTML string for the development error page.
+ */
+export function createDebugHTML(info: DebugInfo): `<!DOCTYPE html>${string}</html>` {
+    const { error, req, route, args } = info
+    const name = error instanceof Error ? error.name : typeof error
+    const message = error instanceof Error ? error.message : String(error)
+    const stack = error instanceof Error ? (error.stack ?? "") : ""
+    const rows = (entries: [string, string][]) =>
+        entries.length
+            ? entries
+                  .map(
+                      ([k, v]) =>
+                          `<tr><th>${escapeHTML(k)}</th><td><pre>${escapeHTML(v)}</pre></td></tr>`
+                  )
+                  .join("\n")
+            : `<tr><td>None</td></tr>`
+    return `<!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8"/>
+        <title>${escapeHTML(name)}: ${escapeHTML(message)}</title>
+        <style>
+        body { font-family: sans-serif; margin: 2rem; color: #222; }
+        h1 { color: #b00020; font-size: 1.5rem; }
+        h2 { font-size: 1.1rem; border-bottom: 1px solid #ddd; padding-bottom: 0.25rem; }
+        pre { margin: 0; white-space: pre-wrap; word-break: break-word; }
+        .stack { background: #f6f6f6; padding: 1rem; overflow-x: auto; }
+        table { border-collapse: collapse; }
+        th, td { text-align: left; vertical-align: top; padding: 0.25rem 1rem 0.25rem 0; }
+        </style>
+    </head>
+    <body>
+        <h1>${escapeHTML(name)}: ${escapeHTML(message)}</h1>
+        <p>${escapeHTML(req.method)} ${escapeHTML(req.url)}</p>
+        <h2>Stack</h2>
+        <pre class="stack">${escapeHTML(stack)}</pre>
+        <h2>Route</h2>
+        <table>${rows(
+            route
+                ? [
+                      ["Method", route.method],
+                      ["Path", route.path],
+                  ]
+                : []
+        )}</table>
+        <h2>Parameters</h2>
+        <table>${rows(Object.entries(args ?? {}).map(([k, v]) => [k, stringifyValue(v)]))}</table>
+        <h2>Request Headers</h2>
+        <table>${rows([...req.headers.entries()])}</table>
+    </body>
+    </html>`
+}
+
+/**
+ * Creates the development error page response, rendered as HTML,
+ * or as JSON when the `Accept` header of the request prefers it.
+ *
+ * @param info The information about the failed request.
+ * @returns The error page response with status 500.
+ */
+export function createDebugResponse(info: DebugInfo): Response {
+    if (prefersJSON(info.req.headers.get("Accept")))
+        return new JSONResponse(createDebugReport(info), { status: 500 })
+    return new HTMLResponse(createDebugHTML(info), { status: 500 })
+}
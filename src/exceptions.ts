@@ -0,0 +1,107 @@
+import type { ExceptionHandler, ExceptionHandlers, ResolveArgsError } from "./types"
+
+/** Standard reason phrases of common HTTP error status codes. */
+export const HTTP_STATUS_PHRASES: Record<number, string> = {
+    400: "Bad Request",
+    401: "Unauthorized",
+    402: "Payment Required",
+    403: "Forbidden",
+    404: "Not Found",
+    405: "Method Not Allowed",
+    406: "Not Acceptable",
+    408: "Request Timeout",
+    409: "Conflict",
+    410: "Gone",
+    411: "Length Required",
+    412: "Precondition Failed",
+    413: "Content Too Large",
+    414: "URI Too Long",
+    415: "Unsupported Media Type",
+    416: "Range Not Satisfiable",
+    417: "Expectation Failed",
+    418: "I'm a teapot",
+    421: "Misdirected Request",
+    422: "Unprocessable Content",
+    423: "Locked",
+    424: "Failed Dependency",
+    425: "Too Early",
+    426: "Upgrade Required",
+    428: "Precondition Required",
+    429: "Too Many Requests",
+    431: "Request Header Fields Too Large",
+    451: "Unavailable For Legal Reasons",
+    500: "Internal Server Error",
+    501: "Not Implemented",
+    502: "Bad Gateway",
+    503: "Service Unavailable",
+    504: "Gateway Timeout",
+}
+
+/**
+ * An error that is converted into an HTTP error response when thrown during requests.
+ *
+ * Without a matching exception handler, the response body is `{ detail }` serialized as JSON,
+ * with `detail` defaulting to the reason phrase of the status code.
+ * Validation `errors` are reported like failed request validations, in place of `detail`,
+ * or in the `errors` extension of problem details documents.
+ */
+export class HTTPException extends Error {
+    status: number
+    detail: any
+    errors?: ResolveArgsError[]
+    headers?: HeadersInit
+
+    constructor(
+        status: number,
+        init?: { detail?: any; errors?: ResolveArgsError[]; headers?: HeadersInit }
+    ) {
+        const detail = init?.detail ?? HTTP_STATUS_PHRASES[status] ?? "Unknown Error"
+        super(typeof detail === "string" ? detail : JSON.stringify(detail))
+        this.name = "HTTPException"
+        this.status = status
+        this.detail = detail
+        this.errors = init?.errors
+        this.headers = init?.headers
+    }
+}
+
+/**
+ * An error thrown by `app.validate()`, listing all the problems found in the routes
+ * and their dependency trees.
+ */
+export class AppValidationError extends Error {
+    problems: string[]
+
+    constructor(problems: string[]) {
+        super(
+            `Found ${problems.length} problem(s) in app routes:\n` +
+                problems.map((problem) => `- ${problem}`).join("\n")
+        )
+        this.name = "AppValidationError"
+        this.problems = problems
+    }
+}
+
+/**
+ * Finds the exception handler for an error from a mapping of exception handlers.
+ *
+ * Status code keys are matched first for `HTTPException`s, then error classes
+ * are matched from the most specific class up the prototype chain.
+ *
+ * @param handlers The exception handlers mapping to search in.
+ * @param e The error thrown.
+ * @returns The matching exception handler, or `undefined` if none matches.
+ */
+export function findExceptionHandler(
+    handlers: ExceptionHandlers,
+    e: unknown
+): ExceptionHandler | undefined {
+    if (handlers.size == 0) return undefined
+    if (e instanceof HTTPException && handlers.has(e.status)) return handlers.get(e.status)
+    if (e === null || typeof e !== "object") return undefined
+    for (let proto = Object.getPrototypeOf(e); proto; proto = Object.getPrototypeOf(proto)) {
+        const handler = handlers.get(proto.constructor)
+        if (handler) return handler
+    }
+    return undefined
+}
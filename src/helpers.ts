@@ -1,5 +1,7 @@
 import { z } from "zod"
 
+import type { Teardown } from "./types"
+
 /**
  * Creates a promise that can be resolved later.
  *
@@ -61,6 +63,52 @@ export function searchParamsToQueries(searchParams: URLSearchParams): Record<str
     return queries
 }
 
+/** Keys that are never assigned when building objects from request data. */
+export const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"])
+
+/**
+ * Builds a nested value from `deepObject` style and bracket notation query parameters,
+ * such as `filter[status]=open&filter[owner][id]=3` or `ids[]=1&ids[]=2`.
+ * Empty brackets append to arrays, numeric brackets create arrays when the value is new.
+ *
+ * @param queries The record of query parameters.
+ * @param name The name of the query parameter.
+ * @returns The nested value, or `undefined` if no query parameter uses the name with brackets.
+ */
+export function parseDeepObjectQuery(queries: Record<string, string[]>, name: string): unknown {
+    const holder: { value?: unknown } = {}
+    for (const [key, values] of Object.entries(queries)) {
+        if (!key.startsWith(name + "[") || !/^(\[[^\[\]]*\])+$/.test(key.slice(name.length)))
+            continue
+        const tokens = [...key.slice(name.length).matchAll(/\[([^\]]*)\]/g)].map((m) => m[1])
+        if (tokens.some((token) => UNSAFE_KEYS.has(token))) continue
+        for (const value of values) {
+            let node: any = holder
+            let prop: string | number = "value"
+            for (const token of tokens) {
+                node[prop] ??= token === "" || /^[0-9]+$/.test(token) ? [] : {}
+                node = node[prop]
+                if (node === null || typeof node !== "object") break
+                prop = token === "" && Array.isArray(node) ? node.length : token
+            }
+            if (node !== null && typeof node === "object") node[prop] = value
+        }
+    }
+    return holder.value
+}
+
+/** Removes the optional, nullable and default wrappers of a Zod type. */
+export function stripZodWrappers(schema: z.ZodType): z.ZodType {
+    while (
+        schema instanceof z.ZodOptional ||
+        schema instanceof z.ZodNullable ||
+        schema instanceof z.ZodDefault ||
+        schema instanceof z.ZodPrefault
+    )
+        schema = unsafeZodUnwrap(schema)!
+    return schema
+}
+
 /**
  * Unwraps a Zod type if it has an `unwrap` method.
  * This is useful for extracting the inner type from wrapper types like `ZodOptional` or `ZodNullable`.
@@ -74,3 +122,21 @@ export function unsafeZodUnwrap<T extends z.ZodType>(type: T): z.ZodType | undef
     }
     return undefined
 }
+
+/**
+ * Runs teardowns in reverse order, continuing past failing teardowns.
+ *
+ * @param teardowns The teardowns in the order they were registered.
+ * @returns The errors thrown by the teardowns.
+ */
+export async function runTeardowns(teardowns: Teardown[]): Promise<unknown[]> {
+    const errors: unknown[] = []
+    for (const teardown of [...teardowns].reverse()) {
+        try {
+            await teardown()
+        } catch (e) {
+            errors.push(e)
+        }
+    }
+    return errors
+}
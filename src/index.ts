@@ -10,5 +10,6 @@ if (z.string().openapi === undefined) {
 }
 
 export * from "./core"
+export * from "./exceptions"
 export * from "./parameters"
 export * from "./responses"
@@ -0,0 +1,140 @@
+import type { Dependency, Middleware } from "./core"
+import type { Route } from "./routing"
+import type { DependencyInfo, DependsParameter, RouteInfo, RouteParameters } from "./types"
+
+/**
+ * Splits parameters into their flattened dependency trees and their own raw parameters.
+ * Dependencies already on the `stack` are skipped to guard against cycles.
+ */
+function introspectParameters(
+    parameters: RouteParameters,
+    stack: Dependency<any, any>[]
+): Pick<DependencyInfo, "parameters" | "dependencies"> {
+    const info: Pick<DependencyInfo, "parameters" | "dependencies"> = {
+        parameters: [],
+        dependencies: [],
+    }
+    for (const [name, parameter] of Object.entries(parameters)) {
+        if (parameter.location == "@depends") {
+            const dependency = (parameter as DependsParameter<any, any>).dependency
+            if (!stack.includes(dependency))
+                info.dependencies.push(introspectDependency(dependency, name, stack))
+        } else {
+            info.parameters.push({ name, location: parameter.location })
+        }
+    }
+    return info
+}
+
+/** Creates the introspection information of a dependency and its nested dependencies. */
+function introspectDependency(
+    dependency: Dependency<any, any>,
+    name: string,
+    stack: Dependency<any, any>[] = []
+): DependencyInfo {
+    return {
+        name: dependency.name ?? name,
+        dependency: dependency,
+        scope: dependency.scope,
+        ...introspectParameters(dependency.parameters, [...stack, dependency]),
+    }
+}
+
+/**
+ * Creates the introspection information of a route.
+ *
+ * @param route The route to introspect.
+ * @param middleware The middleware applied to the route, including those of routers.
+ * @returns The route information, with its flattened dependency tree.
+ */
+export function introspectRoute(route: Route<any, any, any>, middleware: Middleware[]): RouteInfo {
+    return {
+        method: route.method,
+        path: route.path,
+        name: route.name,
+        tags: route.tags,
+        middleware: middleware.map((m) => m.name ?? "anonymous"),
+        ...introspectParameters(route.parameters, []),
+        sideEffectDependencies: route.dependencies.map((dependency) =>
+            introspectDependency(dependency, "anonymous")
+        ),
+    }
+}
+
+/** Graph of routes and dependencies shared by the exporters. */
+type DependencyGraph = {
+    nodes: { id: string; label: string; kind: "route" | "dependency" }[]
+    edges: { from: string; to: string; sideEffect: boolean }[]
+}
+
+/** Builds the dependency graph of routes, with one node per distinct dependency. */
+function createDependencyGraph(routes: RouteInfo[]): DependencyGraph {
+    const graph: DependencyGraph = { nodes: [], edges: [] }
+    const ids = new Map<Dependency<any, any>, string>()
+    const edges = new Set<string>()
+    const addEdge = (from: string, to: string, sideEffect: boolean) => {
+        if (edges.has(`${from} ${to}`)) return
+        edges.add(`${from} ${to}`)
+        graph.edges.push({ from, to, sideEffect })
+    }
+    const addDependency = (info: DependencyInfo): string => {
+        let id = ids.get(info.dependency)
+        if (id) return id
+        id = `d${ids.size}`
+        ids.set(info.dependency, id)
+        const label = info.scope == "app" ? `${info.name} (app)` : info.name
+        graph.nodes.push({ id, label, kind: "dependency" })
+        for (const sub of info.dependencies) addEdge(id, addDependency(sub), false)
+        return id
+    }
+    for (const [index, route] of routes.entries()) {
+        const id = `r${index}`
+        graph.nodes.push({ id, label: `${route.method} ${route.path}`, kind: "route" })
+        for (const info of route.sideEffectDependencies) addEdge(id, addDependency(info), true)
+        for (const info of route.dependencies) addEdge(id, addDependency(info), false)
+    }
+    return graph
+}
+
+/**
+ * Exports the dependency graph of routes as a Mermaid flowchart.
+ * Edges of side-effect dependencies are dotted.
+ *
+ * @param routes The routes information, see `App.introspect`.
+ * @returns The Mermaid flowchart definition.
+ */
+export function toMermaid(routes: RouteInfo[]): string {
+    const graph = createDependencyGraph(routes)
+    const escape = (label: string) => label.replace(/"/g, "#quot;")
+    const lines = ["flowchart LR"]
+    for (const node of graph.nodes)
+        lines.push(
+            node.kind == "route"
+                ? `    ${node.id}["${escape(node.label)}"]`
+                : `    ${node.id}(["${escape(node.label)}"])`
+        )
+    for (const edge of graph.edges)
+        lines.push(`    ${edge.from} ${edge.sideEffect ? "-.->" : "-->"} ${edge.to}`)
+    return lines.join("\n")
+}
+
+/**
+ * Exports the dependency graph of routes as a Graphviz DOT digraph.
+ * Edges of side-effect dependencies are dashed.
+ *
+ * @param routes The routes information, see `App.introspect`.
+ * @returns The DOT digraph definition.
+ */
+export function toDOT(routes: RouteInfo[]): string {
+    const graph = createDependencyGraph(routes)
+    const escape = (label: string) => label.replace(/\\/g, "\\\\").replace(/"/g, '\\"')
+    const lines = ["digraph dependencies {", "    rankdir=LR"]
+    for (const node of graph.nodes)
+        lines.push(
+            `    ${node.id} [label="${escape(node.label)}", shape=${node.kind == "route" ? "box" : "ellipse"}]`
+        )
+    for (const edge of graph.edges)
+        lines.push(`    ${edge.from} -> ${edge.to}${edge.sideEffect ? " [style=dashed]" : ""}`)
+    lines.push("}")
+    return lines.join("\n")
+}
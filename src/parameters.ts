@@ -1,25 +1,39 @@
 import { z } from "zod"
 import type { ResponseConfig } from "@asteasolutions/zod-to-openapi"
 
+import { decodeCBOR, decodeMsgPack } from "./codecs"
+import { safeParseCoerced } from "./coercion"
 import { Dependency } from "./core"
-import { unsafeZodUnwrap } from "./helpers"
+import { HTTPException } from "./exceptions"
+import { parseDeepObjectQuery, stripZodWrappers, unsafeZodUnwrap } from "./helpers"
+import { createJSONPatchSchema, createMergePatchSchema, createPatch } from "./patch"
 import type {
     ArgsOf,
+    BodyDecoder,
     BodyParameter,
     CookieParameter,
+    DependencyResolution,
     DependsParameter,
+    FileParameter,
+    FileParameterOptions,
+    FormParameter,
     HeaderParameter,
-    Later,
+    JSONPatchOperation,
+    MergePatchDocument,
+    Patch,
     ResolveArgsError,
     ResolveArgsInfo,
+    ResolveArgsInput,
     PathParameter,
     QueryParameter,
+    QueryParameterOptions,
     RespondsOptions,
     RouteParameter,
     RouteParameterOptions,
     RouteParameters,
     ZodBodyable,
     Simplify,
+    Teardown,
 } from "./types"
 
 export function Path(): PathParameter<z.ZodString>
@@ -34,29 +48,23 @@ export function Path(
     return {
         location: "path",
         schema: schema,
-        options: {
-            preprocessor: isJsonCoercible(schema) ? jsonCoerce : undefined,
-            ...options,
-        },
+        options: { ...options },
     }
 }
 
 export function Query(): QueryParameter<z.ZodString>
 export function Query<S extends z.ZodType>(
     schema: S,
-    options?: Simplify<Omit<RouteParameterOptions, "mediaType">>
+    options?: Simplify<QueryParameterOptions>
 ): QueryParameter<S>
 export function Query(
     schema: z.ZodType = z.string(),
-    options?: Simplify<Omit<RouteParameterOptions, "mediaType">>
+    options?: Simplify<QueryParameterOptions>
 ): QueryParameter<z.ZodType> {
     return {
         location: "query",
         schema: schema,
-        options: {
-            preprocessor: isJsonCoercible(schema) ? jsonCoerce : undefined,
-            ...options,
-        },
+        options: { ...options },
     }
 }
 
@@ -72,10 +80,7 @@ export function Header(
     return {
         location: "header",
         schema: schema,
-        options: {
-            preprocessor: isJsonCoercible(schema) ? jsonCoerce : undefined,
-            ...options,
-        },
+        options: { ...options },
     }
 }
 
@@ -91,10 +96,40 @@ export function Cookie(
     return {
         location: "cookie",
         schema: schema,
-        options: {
-            preprocessor: isJsonCoercible(schema) ? jsonCoerce : undefined,
-            ...options,
-        },
+        options: { ...options },
+    }
+}
+
+export function Queries<S extends z.ZodObject>(
+    schema: S,
+    options?: Simplify<Omit<RouteParameterOptions, "mediaType" | "altName" | "preprocessor">>
+): QueryParameter<S> {
+    return {
+        location: "query",
+        schema: schema,
+        options: { ...options, group: true },
+    }
+}
+
+export function Headers<S extends z.ZodObject>(
+    schema: S,
+    options?: Simplify<Omit<RouteParameterOptions, "mediaType" | "altName" | "preprocessor">>
+): HeaderParameter<S> {
+    return {
+        location: "header",
+        schema: schema,
+        options: { ...options, group: true },
+    }
+}
+
+export function Cookies<S extends z.ZodObject>(
+    schema: S,
+    options?: Simplify<Omit<RouteParameterOptions, "mediaType" | "altName" | "preprocessor">>
+): CookieParameter<S> {
+    return {
+        location: "cookie",
+        schema: schema,
+        options: { ...options, group: true },
     }
 }
 
@@ -113,23 +148,93 @@ export function Body(
 ): BodyParameter<z.ZodType<ReadableStream>>
 export function Body<S extends z.ZodType>(
     schema: S,
-    options?: Simplify<Omit<RouteParameterOptions, "altName" | "mediaType">>
+    options?: Simplify<
+        Omit<RouteParameterOptions, "altName" | "mediaType"> & {
+            embed?: boolean
+            mediaTypes?: string[]
+            decoders?: Record<string, BodyDecoder>
+        }
+    >
 ): BodyParameter<S>
 export function Body(
     schema: ZodBodyable = String,
-    options?: Simplify<Omit<RouteParameterOptions, "altName">>
+    options?: Simplify<
+        Omit<RouteParameterOptions, "altName"> & {
+            embed?: boolean
+            mediaTypes?: string[]
+            decoders?: Record<string, BodyDecoder>
+        }
+    >
 ): BodyParameter<z.ZodType> {
+    for (const mediaType of options?.mediaTypes ?? [])
+        if (!options?.decoders?.[mediaType] && !BODY_DECODERS[mediaType])
+            throw new Error(`No decoder for body media type "${mediaType}".`)
     return {
         location: "body",
         schema: schema instanceof z.ZodType ? schema : z.any(),
         schemaOr: schema instanceof z.ZodType ? undefined : schema,
         options: {
-            mediaType: "application/json",
+            mediaType: options?.mediaTypes?.[0] ?? "application/json",
+            ...options,
+        },
+    }
+}
+
+export function MergePatchBody<S extends z.ZodObject>(
+    schema: S,
+    options?: Simplify<Omit<RouteParameterOptions, "altName" | "mediaType" | "preprocessor">>
+): BodyParameter<z.ZodType<Patch<MergePatchDocument<z.output<S>>, z.output<S>>>> {
+    return {
+        location: "body",
+        schema: createMergePatchSchema(schema) as z.ZodType<any>,
+        options: {
+            mediaType: "application/merge-patch+json",
+            ...options,
+            patch: { kind: "merge", schema: schema },
+        },
+    }
+}
+
+export function JSONPatchBody<S extends z.ZodObject>(
+    schema: S,
+    options?: Simplify<Omit<RouteParameterOptions, "altName" | "mediaType" | "preprocessor">>
+): BodyParameter<z.ZodType<Patch<JSONPatchOperation[], z.output<S>>>> {
+    return {
+        location: "body",
+        schema: createJSONPatchSchema(schema) as z.ZodType<any>,
+        options: {
+            mediaType: "application/json-patch+json",
             ...options,
+            patch: { kind: "json", schema: schema },
         },
     }
 }
 
+export function Form<S extends z.ZodObject>(
+    schema: S,
+    options?: Simplify<Omit<RouteParameterOptions, "altName" | "preprocessor">>
+): FormParameter<S> {
+    return {
+        location: "form",
+        schema: schema,
+        options: {
+            mediaType: "application/x-www-form-urlencoded",
+            ...options,
+        },
+    }
+}
+
+export function File(options?: Simplify<FileParameterOptions>): FileParameter<z.ZodFile> {
+    let schema = z.file()
+    if (options?.maxSize !== undefined) schema = schema.max(options.maxSize)
+    if (options?.mediaTypes) schema = schema.mime(options.mediaTypes)
+    return {
+        location: "file",
+        schema: schema,
+        options: { ...options },
+    }
+}
+
 export function Depends<Ps extends RouteParameters, R>(
     dependency: Dependency<Ps, R>
 ): DependsParameter<z.ZodType<R>, Ps> {
@@ -140,6 +245,7 @@ export function Depends<Ps extends RouteParameters, R>(
     }
 }
 
+/** @deprecated Parameters are coerced following their schema, see `coerce` of `cerces/coercion`. */
 export function jsonCoerce<Out = unknown>(value: string): Out | string
 export function jsonCoerce<Out = unknown>(value: string[]): Out[] | string[]
 export function jsonCoerce<Out = unknown>(
@@ -155,6 +261,7 @@ export function jsonCoerce<Out = unknown>(
     }
 }
 
+/** @deprecated Parameters are coerced following their schema, see `coerce` of `cerces/coercion`. */
 export function isJsonCoercible(schema: z.ZodType): boolean {
     return (
         schema instanceof z.ZodNumber ||
@@ -220,32 +327,282 @@ export function parseCookie(cookieHeader?: string | null): Record<string, string
     return cookies
 }
 
+/** Parsed form data of requests, shared by the form and file parameters of a request. */
+const formDataCache = new WeakMap<Request, Promise<FormData>>()
+
+/** Reads the form data of a request once, the body can only be consumed once. */
+function readFormData(req: Request): Promise<FormData> {
+    let formData = formDataCache.get(req)
+    if (!formData) {
+        formData = req.formData()
+        formDataCache.set(req, formData)
+    }
+    return formData
+}
+
+/** Groups the values of form data by their field names. */
+function groupFormData(formData: FormData): Record<string, FormDataEntryValue[]> {
+    const fields: Record<string, FormDataEntryValue[]> = {}
+    for (const key of new Set(formData.keys())) fields[key] = Array.from(formData.getAll(key))
+    return fields
+}
+
+/**
+ * Converts grouped form fields to an object for validation against a form schema,
+ * taking all values of array fields and the first value of other fields.
+ * Without a schema, fields with a single value are unwrapped.
+ */
+function collectFormFields(
+    fields: Record<string, FormDataEntryValue[]>,
+    schema?: z.ZodObject
+): Record<string, unknown> {
+    const data: Record<string, unknown> = {}
+    for (const [key, values] of Object.entries(fields)) {
+        const fieldSchema = schema?.shape[key] as z.ZodType | undefined
+        if (!fieldSchema) {
+            data[key] = values.length > 1 ? values : values[0]
+            continue
+        }
+        data[key] =
+            fieldSchema instanceof z.ZodArray || unsafeZodUnwrap(fieldSchema) instanceof z.ZodArray
+                ? values
+                : values[0]
+    }
+    return data
+}
+
+/** Media types of form bodies, decoded into grouped form fields. */
+const FORM_MEDIA_TYPES = new Set(["application/x-www-form-urlencoded", "multipart/form-data"])
+
+/** Decodes JSON bodies, including JSON based media types such as patch documents. */
+const decodeJSON: BodyDecoder = (req) => req.json()
+
+/** Built-in decoders of body parameters by media type. */
+const BODY_DECODERS: Record<string, BodyDecoder> = {
+    "application/json": decodeJSON,
+    "application/merge-patch+json": decodeJSON,
+    "application/json-patch+json": decodeJSON,
+    "application/x-www-form-urlencoded": async (req) => groupFormData(await readFormData(req)),
+    "multipart/form-data": async (req) => groupFormData(await readFormData(req)),
+    "text/plain": (req) => req.text(),
+    "application/msgpack": async (req) => decodeMsgPack(new Uint8Array(await req.arrayBuffer())),
+    "application/cbor": async (req) => decodeCBOR(new Uint8Array(await req.arrayBuffer())),
+}
+
+/** Decoded bodies of requests by decoder, shared by the body parameters of a request. */
+const decodedBodyCache = new WeakMap<Request, Map<BodyDecoder, Promise<unknown>>>()
+
+/** Decodes the body of a request once per decoder, the body can only be consumed once. */
+function decodeBody(req: Request, decoder: BodyDecoder): Promise<unknown> {
+    let decoded = decodedBodyCache.get(req)
+    if (!decoded) {
+        decoded = new Map()
+        decodedBodyCache.set(req, decoded)
+    }
+    let body = decoded.get(decoder)
+    if (!body) {
+        body = (async () => decoder(req))()
+        decoded.set(decoder, body)
+    }
+    return body
+}
+
+/**
+ * Determines if a media type matches a media range of a body parameter,
+ * such as `application/json`, `image/*` or `*\/*`.
+ */
+function matchMediaType(range: string, mediaType: string): boolean {
+    if (range == "*/*" || range == mediaType) return true
+    return range.endsWith("/*") && mediaType.startsWith(range.slice(0, -1))
+}
+
+/** Strict variants of body object schemas, created once per schema. */
+const strictSchemaCache = new WeakMap<z.ZodObject, z.ZodObject>()
+
+/**
+ * Makes a body object schema strict in the strict parameters mode, rejecting unknown keys.
+ * Object schemas with an explicit catchall, such as `z.looseObject()`, are left unchanged.
+ */
+function strictBodySchema(schema: z.ZodType): z.ZodType {
+    if (!(schema instanceof z.ZodObject) || schema._zod.def.catchall) return schema
+    let strict = strictSchemaCache.get(schema)
+    if (!strict) {
+        strict = schema.strict()
+        strictSchemaCache.set(schema, strict)
+    }
+    return strict
+}
+
+/** Delimiters of non-exploded array query parameters by style. */
+const QUERY_DELIMITERS: Record<string, string> = {
+    form: ",",
+    spaceDelimited: " ",
+    pipeDelimited: "|",
+}
+
+/**
+ * Splits the issues of a grouped parameter into errors of its individual fields,
+ * issues not specific to a field are reported under the name of the group.
+ */
+function splitGroupIssues(
+    parameter: RouteParameter<z.ZodType>,
+    name: string,
+    issues: z.core.$ZodIssue[]
+): ResolveArgsError[] {
+    const errors = new Map<string, ResolveArgsError>()
+    for (const issue of issues) {
+        const [key, ...path] = issue.path
+        const field = typeof key === "string" && key in (parameter.schema as z.ZodObject).shape
+        const errorName = field ? key : name
+        let error = errors.get(errorName)
+        if (!error) {
+            error = { location: parameter.location, name: errorName, issues: [] }
+            errors.set(errorName, error)
+        }
+        error.issues.push(field ? { ...issue, path } : issue)
+    }
+    return [...errors.values()]
+}
+
+/** Pending resolutions of dependencies shared within a request. */
+type DependencyCache = WeakMap<Dependency<any, any>, Promise<DependencyResolution>>
+
+/**
+ * Resolves the parameters of a dependency and invokes its handler if successful.
+ * Teardowns of async generator handlers and `AsyncDisposable` values are registered to `input`.
+ */
+async function resolveDependency(
+    dependency: Dependency<any, any>,
+    input: ResolveArgsInput,
+    cache: DependencyCache
+): Promise<DependencyResolution> {
+    const parseInfo = await resolveArgs(dependency.parameters, input, cache)
+    if (!parseInfo.success) return parseInfo
+    let value = await dependency.handle({ ...input.baseArgs, ...parseInfo.args }, input.later)
+    if (Object.prototype.toString.call(value) === "[object AsyncGenerator]") {
+        const generator = value as AsyncGenerator<unknown, unknown, undefined>
+        const result = await generator.next()
+        if (result.done) throw new Error(`Dependency generator did not yield a value.`)
+        value = result.value
+        input.teardowns?.push(async () => {
+            await generator.next()
+        })
+    } else if (
+        typeof Symbol.asyncDispose === "symbol" &&
+        typeof value?.[Symbol.asyncDispose] === "function"
+    ) {
+        const disposable = value as AsyncDisposable
+        input.teardowns?.push(async () => await disposable[Symbol.asyncDispose]())
+    }
+    return { ...parseInfo, value }
+}
+
+/**
+ * Resolves a dependency parameter, reusing pending resolutions of the app for app-scoped
+ * dependencies and of the request for cached dependencies. Failed resolutions are not reused.
+ */
+async function resolveDependsParameter(
+    parameter: DependsParameter<any, any>,
+    input: ResolveArgsInput,
+    cache: DependencyCache
+): Promise<DependencyResolution> {
+    const dependency = input.dependencyOverrides?.get(parameter.dependency) ?? parameter.dependency
+    if (dependency.scope == "app" && input.dependencyCache) {
+        const dependencyCache = input.dependencyCache
+        let pending = dependencyCache.get(dependency)
+        const shared = pending !== undefined
+        if (!pending) {
+            // app-scoped values outlive the request, so `later` callbacks are not run
+            // and teardowns are deferred until the dependency is invalidated
+            const teardowns: Teardown[] = []
+            pending = resolveDependency(
+                dependency,
+                { ...input, later: () => {}, teardowns },
+                cache
+            ).then((resolution) => ({ ...resolution, teardowns }))
+            dependencyCache.set(dependency, pending)
+            const evict = () => {
+                if (dependencyCache.get(dependency) === pending) dependencyCache.delete(dependency)
+                // partially resolved dependencies are torn down with the request
+                input.teardowns?.push(...teardowns)
+            }
+            pending.then((r) => !r.success && evict(), evict)
+        }
+        const resolution = await pending
+        // a failed resolution reports the parameters of the request that started it,
+        // so requests that joined it resolve the dependency again with their own
+        if (!resolution.success && shared)
+            return await resolveDependsParameter(parameter, input, cache)
+        // parameters parsed for the request that first resolved the dependency are not merged
+        // into the arguments of other requests
+        return { ...resolution, args: {} }
+    }
+    if (!dependency.useCache) return await resolveDependency(dependency, input, cache)
+    let pending = cache.get(dependency)
+    if (!pending) {
+        pending = resolveDependency(dependency, input, cache)
+        cache.set(dependency, pending)
+        const evict = () => {
+            if (cache.get(dependency) === pending) cache.delete(dependency)
+        }
+        pending.then((r) => !r.success && evict(), evict)
+    }
+    const resolution = await pending
+    return resolution.success ? { ...resolution, errors: [] } : resolution
+}
+
 export async function resolveArgs<Ps extends RouteParameters>(
     parameters: Ps,
-    input: {
-        baseArgs: ArgsOf<{}>
-        rawParameters?: {
-            params?: Record<string, string>
-            queries?: Record<string, string[]>
-            cookies?: Record<string, string | undefined>
-        }
-        later: Later
-    },
-    cache?: WeakMap<Dependency<any, any>, { args: any; value: any }>
+    input: ResolveArgsInput,
+    cache?: DependencyCache
 ): Promise<ResolveArgsInfo<Ps>> {
     const { req } = input.baseArgs
     const { params, queries, cookies } = input.rawParameters ?? {}
+    const { strictParameters } = input
     cache = cache ?? new WeakMap()
 
     let success = true
     const args: Record<string, any> = {}
     const errors: ResolveArgsError[] = []
 
+    const readQuery = (key: string, schema: z.ZodType, delimiter?: string) => {
+        const input = (queries ?? {})[key] ?? undefined
+        if (!input) return input
+        if (!(schema instanceof z.ZodArray || unsafeZodUnwrap(schema) instanceof z.ZodArray))
+            return input[0]
+        // non-exploded arrays are split before coercion
+        return delimiter ? input.flatMap((value) => value.split(delimiter)) : input
+    }
+    const readHeader = (key: string, schema: z.ZodType) => {
+        const input = req.headers.get(key) ?? undefined
+        if (input === undefined || !(stripZodWrappers(schema) instanceof z.ZodArray)) return input
+        // array headers are comma-separated lists
+        return input
+            .split(",")
+            .map((value) => value.trim())
+            .filter((value) => value !== "")
+    }
+    const readCookie = (key: string) => (cookies ?? {})[key]
+    // grouped parameters read each field from its own key, coerced like single parameters
+    const parseGroup = (
+        parameter: RouteParameter<z.ZodType>,
+        read: (key: string, schema: z.ZodType) => string | string[] | undefined
+    ) => {
+        const schema = parameter.schema as z.ZodObject
+        const input: Record<string, unknown> = {}
+        for (const [key, field] of Object.entries(schema.shape as Record<string, z.ZodType>)) {
+            const value = read(key, field)
+            if (value !== undefined) input[key] = value
+        }
+        return safeParseCoerced(schema, input)
+    }
+
     const parsers = {
         path: (name: string, _parameter: RouteParameter<z.ZodType>) => {
             const parameter = _parameter as PathParameter<z.ZodType>
             let input = (params ?? {})[name]
-            return parameter.schema.safeParse(
+            return safeParseCoerced(
+                parameter.schema,
                 input !== undefined && parameter.options.preprocessor
                     ? parameter.options.preprocessor(input)
                     : input
@@ -253,25 +610,34 @@ export async function resolveArgs<Ps extends RouteParameters>(
         },
         query: (name: string, _parameter: RouteParameter<z.ZodType>) => {
             const parameter = _parameter as QueryParameter<z.ZodType>
-            let input: string[] | string | undefined =
-                (queries ?? {})[parameter.options.altName ?? name] ?? undefined
-            if (
-                input &&
-                !(
-                    parameter.schema instanceof z.ZodArray ||
-                    unsafeZodUnwrap(parameter.schema) instanceof z.ZodArray
-                )
+            if (parameter.options.group) return parseGroup(parameter, readQuery)
+            if (parameter.options.style == "deepObject") {
+                const input = parseDeepObjectQuery(queries ?? {}, parameter.options.altName ?? name)
+                return safeParseCoerced(parameter.schema, input)
+            }
+            const style = parameter.options.style ?? "form"
+            const input = readQuery(
+                parameter.options.altName ?? name,
+                parameter.schema,
+                (parameter.options.explode ?? style == "form") ? undefined : QUERY_DELIMITERS[style]
             )
-                input = input[0]
-            return parameter.schema.safeParse(
+            return safeParseCoerced(
+                parameter.schema,
                 parameter.options.preprocessor ? parameter.options.preprocessor(input) : input
             )
         },
         header: (name: string, _parameter: RouteParameter<z.ZodType>) => {
             const parameter = _parameter as HeaderParameter<z.ZodType>
-            let input =
-                req.headers.get(parameter.options.altName ?? name.replace(/_/g, "-")) ?? undefined
-            return parameter.schema.safeParse(
+            if (parameter.options.group)
+                return parseGroup(parameter, (key, schema) =>
+                    readHeader(key.replace(/_/g, "-"), schema)
+                )
+            const input = readHeader(
+                parameter.options.altName ?? name.replace(/_/g, "-"),
+                parameter.schema
+            )
+            return safeParseCoerced(
+                parameter.schema,
                 input !== undefined && parameter.options.preprocessor
                     ? parameter.options.preprocessor(input)
                     : input
@@ -279,13 +645,50 @@ export async function resolveArgs<Ps extends RouteParameters>(
         },
         cookie: (name: string, _parameter: RouteParameter<z.ZodType>) => {
             const parameter = _parameter as CookieParameter<z.ZodType>
-            let input = (cookies ?? {})[parameter.options.altName ?? name]
-            return parameter.schema.safeParse(
+            if (parameter.options.group) return parseGroup(parameter, readCookie)
+            const input = readCookie(parameter.options.altName ?? name)
+            return safeParseCoerced(
+                parameter.schema,
                 input !== undefined && parameter.options.preprocessor
                     ? parameter.options.preprocessor(input)
                     : input
             )
         },
+        form: async (name: string, _parameter: RouteParameter<z.ZodType>) => {
+            const parameter = _parameter as FormParameter<z.ZodObject>
+            let formData: FormData
+            try {
+                formData = await readFormData(req)
+            } catch (e) {
+                return {
+                    success: false as const,
+                    error: new z.ZodError([
+                        { message: "Invalid form data.", path: [], code: "custom" },
+                    ]),
+                }
+            }
+            return safeParseCoerced(
+                parameter.schema,
+                collectFormFields(groupFormData(formData), parameter.schema)
+            )
+        },
+        file: async (name: string, _parameter: RouteParameter<z.ZodType>) => {
+            const parameter = _parameter as FileParameter<z.ZodType>
+            let formData: FormData
+            try {
+                formData = await readFormData(req)
+            } catch (e) {
+                return {
+                    success: false as const,
+                    error: new z.ZodError([
+                        { message: "Invalid form data.", path: [], code: "custom" },
+                    ]),
+                }
+            }
+            return parameter.schema.safeParseAsync(
+                formData.get(parameter.options.altName ?? name) ?? undefined
+            )
+        },
         body: async (name: string, _parameter: RouteParameter<z.ZodType>) => {
             const parameter = _parameter as BodyParameter<z.ZodType>
             if (parameter.schemaOr) {
@@ -295,57 +698,98 @@ export async function resolveArgs<Ps extends RouteParameters>(
                 else input = req.body // typeof ReadableStream
                 return { success: true as const, data: input }
             } else {
-                let input
+                const mediaTypes = parameter.options.mediaTypes ?? [parameter.options.mediaType]
+                const contentType = req.headers.get("Content-Type")
+                // requests without a content type are decoded as the first media type
+                const mediaType = contentType
+                    ? contentType.split(";")[0].trim().toLowerCase()
+                    : mediaTypes[0]
+                const range = mediaTypes.find((range) => matchMediaType(range, mediaType))
+                if (!range)
+                    throw new HTTPException(415, {
+                        detail: `Unsupported media type "${mediaType}", expected ${mediaTypes.map((t) => `"${t}"`).join(", ")}.`,
+                    })
+                const decoder = parameter.options.decoders?.[range] ?? BODY_DECODERS[range]
+                let input: any
                 try {
-                    input = await req.json()
+                    input = await decodeBody(req, decoder)
                 } catch (e) {
                     return {
                         success: false as const,
                         error: new z.ZodError([
-                            { message: "Invalid JSON.", path: [], code: "custom" },
+                            {
+                                message: decoder === decodeJSON ? "Invalid JSON." : "Invalid body.",
+                                path: [],
+                                code: "custom",
+                            },
                         ]),
                     }
                 }
-                return parameter.schema.safeParse(input)
+                // form fields are strings, coerced following the schema like parameters
+                const form = decoder === BODY_DECODERS[range] && FORM_MEDIA_TYPES.has(range)
+                if (form)
+                    input = collectFormFields(
+                        input,
+                        !parameter.options.embed && parameter.schema instanceof z.ZodObject
+                            ? parameter.schema
+                            : undefined
+                    )
+                // embedded body parameters read their own top-level key
+                if (parameter.options.embed)
+                    input = input !== null && typeof input === "object" ? input[name] : undefined
+                const schema = strictParameters
+                    ? strictBodySchema(parameter.schema)
+                    : parameter.schema
+                const parseOut = form
+                    ? await safeParseCoerced(schema, input)
+                    : await schema.safeParseAsync(input)
+                if (parseOut.success && parameter.options.patch)
+                    return {
+                        success: true as const,
+                        data: createPatch(
+                            parameter.options.patch.kind,
+                            parseOut.data,
+                            parameter.options.patch.schema,
+                            name
+                        ),
+                    }
+                return parseOut
             }
         },
     }
 
-    for (const [name, _parameter] of Object.entries(parameters)) {
-        let parseOut!: z.ZodSafeParseSuccess<unknown> | z.ZodSafeParseError<unknown>
+    // parameters are resolved concurrently, then merged in declaration order
+    const entries = Object.entries(parameters)
+    const outcomes = await Promise.allSettled(
+        entries.map(([name, _parameter]) =>
+            _parameter.location == "@depends"
+                ? resolveDependsParameter(_parameter as DependsParameter<any, any>, input, cache)
+                : parsers[_parameter.location](name, _parameter)
+        )
+    )
+    const rejected = outcomes.find((outcome) => outcome.status == "rejected")
+    if (rejected) throw rejected.reason
+
+    for (const [i, [name, _parameter]] of entries.entries()) {
+        const outcome = (outcomes[i] as PromiseFulfilledResult<unknown>).value
         if (_parameter.location == "@depends") {
-            const parameter = _parameter as DependsParameter<any, any>
-            const dependency = parameter.dependency
-            if (dependency.useCache) {
-                const cached = cache.get(dependency)
-                if (cached) {
-                    args[name] = cached.value
-                    for (const [depArgName, depArgValue] of Object.entries(cached.args)) {
-                        if (args[depArgName] === undefined) args[depArgName] = depArgValue
-                    }
-                    continue
-                }
-            }
-            const dependencyParseInfo = await resolveArgs(dependency.parameters, input, cache)
-            success &&= dependencyParseInfo.success
-            if (dependencyParseInfo.success) {
-                args[name] = await dependency.handle(
-                    { ...input.baseArgs, ...dependencyParseInfo.args },
-                    input.later
-                )
-                for (const [depArgName, depArgValue] of Object.entries(dependencyParseInfo.args)) {
+            const resolution = outcome as DependencyResolution
+            success &&= resolution.success
+            if (resolution.success) {
+                args[name] = resolution.value
+                for (const [depArgName, depArgValue] of Object.entries(resolution.args)) {
                     if (args[depArgName] === undefined) args[depArgName] = depArgValue
                 }
-                if (dependency.useCache)
-                    cache.set(dependency, { value: args[name], args: dependencyParseInfo.args })
             } else {
-                errors.push(...dependencyParseInfo.errors)
+                errors.push(...resolution.errors)
             }
         } else {
-            parseOut = await parsers[_parameter.location](name, _parameter)
+            const parseOut = outcome as z.ZodSafeParseResult<unknown>
             success &&= parseOut.success
             if (parseOut.success) {
                 args[name] = parseOut.data
+            } else if ((_parameter.options as QueryParameter<z.ZodType>["options"]).group) {
+                errors.push(...splitGroupIssues(_parameter, name, parseOut.error.issues))
             } else {
                 errors.push({
                     location: _parameter.location,
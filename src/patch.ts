@@ -0,0 +1,252 @@
+import { z } from "zod"
+
+import { HTTPException } from "./exceptions"
+import { stripZodWrappers, UNSAFE_KEYS } from "./helpers"
+import type { JSONPatchOperation, Patch } from "./types"
+
+/**
+ * Creates the schema of RFC 7396 JSON Merge Patch documents of an object schema.
+ * All fields are optional and nullable, `null` removing the field, and nested objects are patches themselves.
+ * Defaults of the object schema are not applied to patch documents.
+ *
+ * @param schema The object schema of the patched resource.
+ * @returns The merge patch document schema.
+ */
+export function createMergePatchSchema(schema: z.ZodObject): z.ZodObject {
+    const shape: Record<string, z.ZodType> = {}
+    for (const [key, field] of Object.entries(schema.shape as Record<string, z.ZodType>)) {
+        const inner = stripZodWrappers(field)
+        shape[key] = (inner instanceof z.ZodObject ? createMergePatchSchema(inner) : inner)
+            .nullable()
+            .optional()
+    }
+    return z.object(shape)
+}
+
+/** Pattern of RFC 6901 JSON Pointers. */
+const POINTER_PATTERN = /^(\/[^/]*)*$/
+
+/** Parses an RFC 6901 JSON Pointer into its reference tokens. */
+function parsePointer(pointer: string): string[] {
+    if (pointer === "") return []
+    return pointer
+        .slice(1)
+        .split("/")
+        .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
+
+/**
+ * Finds the schema of the value at a JSON Pointer within a schema, if it is known.
+ * Pointers through unsafe keys such as `__proto__` are never known.
+ */
+function schemaAtPointer(schema: z.ZodType, pointer: string): z.ZodType | undefined {
+    for (const token of parsePointer(pointer)) {
+        if (UNSAFE_KEYS.has(token)) return undefined
+        const inner = stripZodWrappers(schema)
+        if (inner instanceof z.ZodObject) {
+            if (!Object.hasOwn(inner.shape, token)) return undefined
+            schema = inner.shape[token]
+        } else if (inner instanceof z.ZodArray) schema = inner.element as z.ZodType
+        else return undefined
+    }
+    return schema
+}
+
+/**
+ * Creates the schema of RFC 6902 JSON Patch documents of an object schema.
+ * The `path` and `from` pointers of all operations must be in the schema,
+ * and values of `add` and `replace` operations are validated against the schema at their path.
+ * Values are validated asynchronously, the document schema must be parsed with `safeParseAsync`.
+ *
+ * @param schema The object schema of the patched resource.
+ * @returns The JSON Patch document schema.
+ */
+export function createJSONPatchSchema(schema: z.ZodObject): z.ZodType<JSONPatchOperation[]> {
+    const pointer = z.string().regex(POINTER_PATTERN, "Invalid JSON Pointer.")
+    const operation = z.discriminatedUnion("op", [
+        z.object({ op: z.enum(["add", "replace", "test"]), path: pointer, value: z.unknown() }),
+        z.object({ op: z.literal("remove"), path: pointer }),
+        z.object({ op: z.enum(["move", "copy"]), from: pointer, path: pointer }),
+    ])
+    return z.array(operation).superRefine(async (operations, ctx) => {
+        for (const [i, operation] of operations.entries()) {
+            const pointers = "from" in operation ? (["from", "path"] as const) : (["path"] as const)
+            for (const key of pointers) {
+                const pointer = (operation as Record<string, string>)[key]
+                // invalid pointers are already reported by the operation schema
+                if (POINTER_PATTERN.test(pointer) && !schemaAtPointer(schema, pointer))
+                    ctx.addIssue({
+                        code: "custom",
+                        message: `Path "${pointer}" is not in the schema.`,
+                        path: [i, key],
+                    })
+            }
+            if (operation.op != "add" && operation.op != "replace") continue
+            const valueSchema = schemaAtPointer(schema, operation.path)
+            if (!valueSchema) continue
+            const parseOut = await valueSchema.safeParseAsync(operation.value)
+            if (!parseOut.success)
+                for (const issue of parseOut.error.issues)
+                    ctx.addIssue({ ...issue, path: [i, "value", ...issue.path] } as any)
+        }
+    }) as z.ZodType<JSONPatchOperation[]>
+}
+
+/** Determines if a value is a plain object, excluding arrays and `null`. */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+/**
+ * Applies an RFC 7396 JSON Merge Patch document to a target value.
+ *
+ * @param target The value to patch, left unmodified.
+ * @param patch The merge patch document.
+ * @returns The patched value.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+    if (!isPlainObject(patch)) return patch
+    const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {}
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined || UNSAFE_KEYS.has(key)) continue
+        if (value === null) delete result[key]
+        else result[key] = applyMergePatch(result[key], value)
+    }
+    return result
+}
+
+/** Determines if two JSON values are deeply equal. */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true
+    if (Array.isArray(a) && Array.isArray(b))
+        return a.length == b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a)
+        return (
+            keys.length == Object.keys(b).length &&
+            keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+        )
+    }
+    return false
+}
+
+/**
+ * Applies an RFC 6902 JSON Patch document to a target value.
+ *
+ * Throws an `HTTPException` with status 409 if an operation cannot be applied,
+ * such as a path that does not exist or a failed `test` operation.
+ *
+ * @param target The value to patch, left unmodified.
+ * @param operations The JSON Patch operations, applied in order.
+ * @returns The patched value.
+ */
+export function applyJSONPatch(target: unknown, operations: JSONPatchOperation[]): unknown {
+    // the document is held by a root container so that the empty pointer can be replaced
+    const root: Record<string, unknown> = { "": structuredClone(target) }
+    const conflict = (i: number, message: string) =>
+        new HTTPException(409, { detail: `Cannot apply JSON Patch operation ${i}: ${message}` })
+
+    const locate = (i: number, pointer: string): [any, string] => {
+        const tokens = ["", ...parsePointer(pointer)]
+        // unsafe keys would reach the prototypes of the patched objects
+        if (tokens.some((token) => UNSAFE_KEYS.has(token)))
+            throw conflict(i, `path "${pointer}" does not exist.`)
+        let container: any = root
+        for (const token of tokens.slice(0, -1)) {
+            if (Array.isArray(container)) container = container[Number(token)]
+            else container = Object.hasOwn(container, token) ? container[token] : undefined
+            if (container === null || typeof container !== "object")
+                throw conflict(i, `path "${pointer}" does not exist.`)
+        }
+        return [container, tokens[tokens.length - 1]]
+    }
+    const index = (i: number, pointer: string, array: unknown[], token: string, end: boolean) => {
+        if (end && token == "-") return array.length
+        const position = Number(token)
+        if (!/^(0|[1-9][0-9]*)$/.test(token) || position >= array.length + (end ? 1 : 0))
+            throw conflict(i, `path "${pointer}" does not exist.`)
+        return position
+    }
+    const get = (i: number, pointer: string): unknown => {
+        const [container, token] = locate(i, pointer)
+        if (Array.isArray(container)) return container[index(i, pointer, container, token, false)]
+        if (!Object.hasOwn(container, token)) throw conflict(i, `path "${pointer}" does not exist.`)
+        return container[token]
+    }
+    const add = (i: number, pointer: string, value: unknown) => {
+        const [container, token] = locate(i, pointer)
+        if (Array.isArray(container))
+            container.splice(index(i, pointer, container, token, true), 0, value)
+        else container[token] = value
+    }
+    const remove = (i: number, pointer: string) => {
+        get(i, pointer)
+        const [container, token] = locate(i, pointer)
+        if (Array.isArray(container)) container.splice(Number(token), 1)
+        else delete container[token]
+    }
+
+    for (const [i, operation] of operations.entries()) {
+        switch (operation.op) {
+            case "add":
+                add(i, operation.path, structuredClone(operation.value))
+                break
+            case "remove":
+                remove(i, operation.path)
+                break
+            case "replace":
+                remove(i, operation.path)
+                add(i, operation.path, structuredClone(operation.value))
+                break
+            case "move": {
+                const value = get(i, operation.from)
+                remove(i, operation.from)
+                add(i, operation.path, value)
+                break
+            }
+            case "copy":
+                add(i, operation.path, structuredClone(get(i, operation.from)))
+                break
+            case "test":
+                if (!isDeepEqual(get(i, operation.path), operation.value))
+                    throw conflict(i, `test of path "${operation.path}" failed.`)
+                break
+        }
+    }
+    return root[""]
+}
+
+/**
+ * Creates the patch given to handlers of `MergePatchBody` and `JSONPatchBody` parameters.
+ * Patched values are re-validated against the full schema, an `HTTPException` with status 422
+ * and the validation `errors` of the body parameter is thrown if invalid.
+ *
+ * @param kind The kind of the patch document.
+ * @param document The validated patch document.
+ * @param schema The object schema of the patched resource.
+ * @param name The name of the body parameter, used in validation errors.
+ * @returns The patch.
+ */
+export function createPatch(
+    kind: "merge" | "json",
+    document: any,
+    schema: z.ZodObject,
+    name: string
+): Patch<any, any> {
+    return {
+        document,
+        apply: async (target) => {
+            const patched =
+                kind == "merge"
+                    ? applyMergePatch(target, document)
+                    : applyJSONPatch(target, document)
+            const parseOut = await schema.safeParseAsync(patched)
+            if (!parseOut.success)
+                throw new HTTPException(422, {
+                    detail: "Patched value validation failed.",
+                    errors: [{ location: "body", name, issues: parseOut.error.issues }],
+                })
+            return parseOut.data
+        },
+    }
+}
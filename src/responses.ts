@@ -1,3 +1,5 @@
+import { encodeCBOR, encodeMsgPack } from "./codecs"
+
 /**
  * A Response subclass that serializes the response body using `JSON.stringify`
  * and sets the `Content-Type` header to `application/json`
@@ -30,3 +32,38 @@ export class PlainTextResponse extends Response {
         this.headers.set("Content-Type", "text/plain;charset=utf-8")
     }
 }
+
+/**
+ * A Response subclass that serializes the response body using `JSON.stringify`
+ * and sets the `Content-Type` header to `application/problem+json`
+ */
+export class ProblemJSONResponse extends Response {
+    constructor(body: any, init?: ResponseInit) {
+        super(JSON.stringify(body), init)
+        this.headers.set("Content-Type", "application/problem+json")
+    }
+}
+
+/**
+ * A Response subclass that serializes the response body as MessagePack
+ * and sets the `Content-Type` header to `application/msgpack`
+ */
+export class MsgPackResponse extends Response {
+    constructor(body: any, init?: ResponseInit) {
+        // encoded bytes are always backed by an `ArrayBuffer`
+        super(encodeMsgPack(body) as BodyInit, init)
+        this.headers.set("Content-Type", "application/msgpack")
+    }
+}
+
+/**
+ * A Response subclass that serializes the response body as CBOR
+ * and sets the `Content-Type` header to `application/cbor`
+ */
+export class CBORResponse extends Response {
+    constructor(body: any, init?: ResponseInit) {
+        // encoded bytes are always backed by an `ArrayBuffer`
+        super(encodeCBOR(body) as BodyInit, init)
+        this.headers.set("Content-Type", "application/cbor")
+    }
+}
@@ -9,17 +9,29 @@ import type {
     DisallowBaseParameters,
     DisallowDependencyParameters,
     DisallowRuntimeParameters,
+    ErrorHandler,
+    ExceptionHandlers,
+    ExceptionHandlersInit,
+    FileParameter,
+    FormParameter,
+    QueryParameter,
     GenericRouteParameters,
     HTTPMethod,
     HTTPMethodLower,
     ImplicitParameters,
+    MethodNotAllowedHandler,
+    NotFoundHandler,
     ResponseClass,
     RouteHandler,
+    ResolveArgsError,
+    ResolveArgsInput,
+    RouteParameter,
     RouteParameters,
+    StrictParameters,
 } from "./types"
-import { Middleware } from "./core"
+import { Dependency, Middleware } from "./core"
 import { JSONResponse } from "./responses"
-import { fixPathSlashes } from "./helpers"
+import { fixPathSlashes, stripZodWrappers } from "./helpers"
 
 /** Headers excluded from OpenAPI schema by default. */
 const DEFAULT_SCHEMA_EXCLUDED_HEADERS = new Set([
@@ -76,6 +88,244 @@ export function generateRouteSummary(method: HTTPMethod, path: string): string {
     ].join(" ")
 }
 
+/**
+ * Statically validates a route and its flattened dependency tree, finding mistakes that
+ * would otherwise only surface at request time, or never.
+ *
+ * Problems found:
+ * - `Path()` parameters whose name does not appear in the route path.
+ * - More than one `Body()` parameter in the flattened dependency tree, unless all are embedded.
+ * - More than one `Form()` parameter in the flattened dependency tree.
+ * - `Body()` parameters combined with `Form()` or `File()` parameters.
+ * - Parameters of different names read from the same query, header or cookie key.
+ * - Dependency cycles.
+ * - App-scoped dependencies declaring request parameters or depending on request-scoped dependencies.
+ *
+ * @param route The route to validate.
+ * @returns The descriptions of the problems found, empty if the route is valid.
+ */
+export function validateRoute(route: Route<any, any, any>): string[] {
+    const problems: string[] = []
+    const label = `${route.method} ${route.path}`
+    const pathNames = new Set([...route.path.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]))
+    const bodyNames: string[] = []
+    const unembeddedBodyNames: string[] = []
+    const formNames: string[] = []
+    const fileNames: string[] = []
+    const keyNames: Record<string, Map<string, Set<string>>> = {
+        query: new Map(),
+        header: new Map(),
+        cookie: new Map(),
+    }
+    const seenParameters = new Set<RouteParameter<any>>()
+    const visited = new Set<Dependency<any, any>>()
+    const stack: { dependency: Dependency<any, any>; name: string }[] = []
+
+    const visit = (parameters: RouteParameters) => {
+        // app-scoped dependencies are resolved once, with the arguments of a single request
+        const parent = stack[stack.length - 1]
+        const appScoped = parent?.dependency.scope == "app"
+        const parentName = `"${parent?.dependency.name ?? parent?.name}"`
+        for (const [name, parameter] of Object.entries(parameters)) {
+            if (parameter.location == "@depends") {
+                const dependency = (parameter as DependsParameter<any, any>).dependency
+                if (appScoped && dependency.scope != "app")
+                    problems.push(
+                        `${label}: App-scoped dependency ${parentName} depends on ` +
+                            `request-scoped dependency "${dependency.name ?? name}".`
+                    )
+                visitDependency(dependency, name)
+                continue
+            }
+            if (appScoped)
+                problems.push(
+                    `${label}: App-scoped dependency ${parentName} declares ` +
+                        `request parameter "${name}".`
+                )
+            if (seenParameters.has(parameter)) continue
+            seenParameters.add(parameter)
+            if (parameter.location == "path") {
+                if (!pathNames.has(name))
+                    problems.push(
+                        `${label}: Path parameter "${name}" does not appear in the route path.`
+                    )
+            } else if (parameter.location == "body") {
+                bodyNames.push(name)
+                if (!(parameter as BodyParameter<any>).options.embed) unembeddedBodyNames.push(name)
+            } else if (parameter.location == "form") {
+                formNames.push(name)
+            } else if (parameter.location == "file") {
+                fileNames.push(name)
+            } else {
+                const keys = keyNames[parameter.location]
+                const header = parameter.location == "header"
+                // grouped parameters read one key per field
+                const fields = (parameter as QueryParameter<any>).options.group
+                    ? Object.keys((parameter.schema as z.ZodObject).shape).map((key) => [
+                          `${name}.${key}`,
+                          header ? key.replace(/_/g, "-") : key,
+                      ])
+                    : [
+                          [
+                              name,
+                              parameter.options.altName ??
+                                  (header ? name.replace(/_/g, "-") : name),
+                          ],
+                      ]
+                for (const [fieldName, fieldKey] of fields) {
+                    const key = header ? fieldKey.toLowerCase() : fieldKey
+                    keys.set(key, (keys.get(key) ?? new Set()).add(fieldName))
+                }
+            }
+        }
+    }
+    const visitDependency = (dependency: Dependency<any, any>, name: string) => {
+        const index = stack.findIndex((entry) => entry.dependency === dependency)
+        if (index >= 0) {
+            const cycle = [...stack.slice(index), { dependency, name }]
+            const names = cycle.map((entry) => `"${entry.dependency.name ?? entry.name}"`)
+            problems.push(`${label}: Dependency cycle ${names.join(" -> ")}.`)
+            return
+        }
+        if (visited.has(dependency)) return
+        visited.add(dependency)
+        stack.push({ dependency, name })
+        visit(dependency.parameters)
+        stack.pop()
+    }
+
+    for (const dependency of route.dependencies) visitDependency(dependency, "(dependencies)")
+    visit(route.parameters)
+
+    if (bodyNames.length > 1 && unembeddedBodyNames.length)
+        problems.push(
+            `${label}: Multiple Body parameters ${bodyNames.map((n) => `"${n}"`).join(", ")}, ` +
+                `only one is allowed per route unless all are embedded.`
+        )
+    if (formNames.length > 1)
+        problems.push(
+            `${label}: Multiple Form parameters ${formNames.map((n) => `"${n}"`).join(", ")}, ` +
+                `only one is allowed per route.`
+        )
+    if (bodyNames.length && formNames.length + fileNames.length)
+        problems.push(
+            `${label}: Body parameters cannot be combined with Form or File parameters ` +
+                `${[...formNames, ...fileNames].map((n) => `"${n}"`).join(", ")}.`
+        )
+    for (const [location, keys] of Object.entries(keyNames)) {
+        for (const [key, names] of keys) {
+            if (names.size > 1)
+                problems.push(
+                    `${label}: Parameters ${[...names].map((n) => `"${n}"`).join(", ")} ` +
+                        `read the same ${location} key "${key}".`
+                )
+        }
+    }
+    return problems
+}
+
+/**
+ * Finds the query parameters, cookies and, if enabled, headers of a request that are not declared
+ * by a route and its flattened dependency tree, reported as errors in the strict parameters mode.
+ * Headers excluded from the OpenAPI schema by default and `Sec-` prefixed headers are always allowed.
+ *
+ * @param route The matched route.
+ * @param input The input of the resolution of the route arguments.
+ * @returns The errors of the undeclared keys.
+ */
+export function findUndeclaredParameters(
+    route: Route<any, any, any>,
+    input: ResolveArgsInput
+): ResolveArgsError[] {
+    const declared: Record<"query" | "header" | "cookie", Set<string>> = {
+        query: new Set(),
+        header: new Set(),
+        cookie: new Set(),
+    }
+    // deep object query parameters read every key in their bracket notation
+    const queryPrefixes: string[] = []
+    const visited = new Set<Dependency<any, any>>()
+
+    const visit = (parameters: RouteParameters) => {
+        for (const [name, parameter] of Object.entries(parameters)) {
+            if (parameter.location == "@depends") {
+                const dependency = (parameter as DependsParameter<any, any>).dependency
+                visitDependency(input.dependencyOverrides?.get(dependency) ?? dependency)
+                continue
+            }
+            if (!(parameter.location in declared)) continue
+            const location = parameter.location as keyof typeof declared
+            const header = location == "header"
+            const options = (parameter as QueryParameter<any>).options
+            const keys = options.group
+                ? Object.keys((parameter.schema as z.ZodObject).shape).map((key) =>
+                      header ? key.replace(/_/g, "-") : key
+                  )
+                : [options.altName ?? (header ? name.replace(/_/g, "-") : name)]
+            for (const key of keys) {
+                declared[location].add(header ? key.toLowerCase() : key)
+                if (location == "query" && options.style == "deepObject")
+                    queryPrefixes.push(`${key}[`)
+            }
+        }
+    }
+    const visitDependency = (dependency: Dependency<any, any>) => {
+        if (visited.has(dependency)) return
+        visited.add(dependency)
+        visit(dependency.parameters)
+    }
+    for (const dependency of route.dependencies)
+        visitDependency(input.dependencyOverrides?.get(dependency) ?? dependency)
+    visit(route.parameters)
+
+    const errors: ResolveArgsError[] = []
+    const reject = (location: keyof typeof declared, key: string, label: string) =>
+        errors.push({
+            location,
+            name: key,
+            issues: [
+                {
+                    code: "unrecognized_keys",
+                    keys: [key],
+                    path: [],
+                    message: `Unrecognized ${label} "${key}".`,
+                },
+            ],
+        })
+    for (const key of Object.keys(input.rawParameters?.queries ?? {})) {
+        if (!declared.query.has(key) && !queryPrefixes.some((prefix) => key.startsWith(prefix)))
+            reject("query", key, "query parameter")
+    }
+    for (const key of Object.keys(input.rawParameters?.cookies ?? {})) {
+        if (!declared.cookie.has(key)) reject("cookie", key, "cookie")
+    }
+    const strict = route.strictParameters
+    if (typeof strict == "object" && strict.headers) {
+        for (const key of input.baseArgs.req.headers.keys()) {
+            if (
+                !declared.header.has(key) &&
+                !DEFAULT_SCHEMA_EXCLUDED_HEADERS.has(key) &&
+                !key.startsWith("sec-")
+            )
+                reject("header", key, "header")
+        }
+    }
+    return errors
+}
+
+/** Sets the OpenAPI serialization style of a parameter schema, keeping its other metadata. */
+function withParamStyle(schema: z.ZodType, style: string, explode: boolean): z.ZodType {
+    const meta = schema.meta()
+    return schema.meta({ ...meta, param: { ...(meta?.param as object), style, explode } })
+}
+
+/** Documents array header parameters as comma-separated lists. */
+function withHeaderStyle(schema: z.ZodType): z.ZodType {
+    return stripZodWrappers(schema) instanceof z.ZodArray
+        ? withParamStyle(schema, "simple", false)
+        : schema
+}
+
 /**
  * Represents a route declaration in the routing system.
  *
@@ -104,6 +354,10 @@ export class Route<
     includeInSchema: boolean
     responseClass: ResponseClass
     middleware: Middleware[]
+    exceptionHandlers: ExceptionHandlers
+    errorHandler?: ErrorHandler
+    strictParameters?: StrictParameters
+    dependencies: Dependency<any, any>[]
     parameters: Ps
     handle: RouteHandler<ArgsOf<Ps & PsBase>, R>
 
@@ -121,6 +375,10 @@ export class Route<
         statusCode?: number
         responseClass?: ResponseClass
         middleware?: Middleware[]
+        exceptionHandlers?: ExceptionHandlersInit
+        errorHandler?: ErrorHandler
+        strictParameters?: StrictParameters
+        dependencies?: Dependency<any, any>[]
         parameters?: Ps &
             DisallowDependencyParameters<ImplicitParameters<Ps>> &
             DisallowBaseDependencyParameters<ImplicitParameters<PsBase>> &
@@ -141,6 +399,10 @@ export class Route<
         this.statusCode = init.statusCode ?? 200
         this.responseClass = init.responseClass ?? JSONResponse
         this.middleware = init.middleware ?? []
+        this.exceptionHandlers = new Map(init.exceptionHandlers)
+        this.errorHandler = init.errorHandler
+        this.strictParameters = init.strictParameters
+        this.dependencies = init.dependencies ?? []
         this.parameters = init.parameters ?? ({} as Ps)
         this.handle = init.handle
     }
@@ -158,9 +420,13 @@ export class Route<
                 }
             }
         }
+        for (const dependency of this.dependencies) extractRawParameters(dependency.parameters)
         extractRawParameters(this.parameters)
 
         let bodyParameter: BodyParameter<z.ZodType> | undefined = undefined
+        const embeddedBodyParameters: Record<string, BodyParameter<z.ZodType>> = {}
+        let formParameter: FormParameter<z.ZodObject> | undefined = undefined
+        const fileParameters: Record<string, FileParameter<z.ZodType>> = {}
         const paramSchemas: Record<string, Record<string, z.ZodType>> = {
             path: {},
             query: {},
@@ -181,11 +447,44 @@ export class Route<
             if (!parameter.options.includeInSchema) {
                 continue
             } else if (parameter.location == "body") {
-                bodyParameter = parameter as BodyParameter<z.ZodType>
+                if ((parameter as BodyParameter<z.ZodType>).options.embed)
+                    embeddedBodyParameters[name] = parameter as BodyParameter<z.ZodType>
+                else bodyParameter = parameter as BodyParameter<z.ZodType>
+            } else if (parameter.location == "form") {
+                formParameter = parameter as FormParameter<z.ZodObject>
+            } else if (parameter.location == "file") {
+                fileParameters[parameter.options.altName ?? name] =
+                    parameter as FileParameter<z.ZodType>
+            } else if ((parameter as QueryParameter<z.ZodType>).options.group) {
+                // grouped parameters are documented as their individual fields
+                for (const [key, field] of Object.entries(
+                    (parameter.schema as z.ZodObject).shape as Record<string, z.ZodType>
+                )) {
+                    if (parameter.location == "header")
+                        paramSchemas.header[key.replace(/_/g, "-")] = withHeaderStyle(field)
+                    else paramSchemas[parameter.location][key] = field
+                }
             } else if (parameter.location == "header") {
-                paramSchemas[parameter.location][
-                    parameter.options.altName ?? name.replace(/_/g, "-")
-                ] = parameter.schema!
+                paramSchemas.header[parameter.options.altName ?? name.replace(/_/g, "-")] =
+                    withHeaderStyle(parameter.schema!)
+            } else if (parameter.location == "query") {
+                const key = parameter.options.altName ?? name
+                const { style, explode } = (parameter as QueryParameter<z.ZodType>).options
+                const array = stripZodWrappers(parameter.schema!) instanceof z.ZodArray
+                if (style == "deepObject")
+                    // arrays are documented by their bracket notation name, objects as deep objects
+                    paramSchemas.query[array ? `${key}[]` : key] = withParamStyle(
+                        parameter.schema!,
+                        array ? "form" : "deepObject",
+                        true
+                    )
+                else if (style || explode !== undefined)
+                    paramSchemas.query[key] = withParamStyle(
+                        parameter.schema!,
+                        style ?? "form",
+                        explode ?? (style ?? "form") == "form"
+                    )
+                else paramSchemas.query[key] = parameter.schema!
             } else {
                 paramSchemas[parameter.location][parameter.options.altName ?? name] =
                     parameter.schema!
@@ -206,16 +505,76 @@ export class Route<
                     },
                 }
             } else {
+                const mediaTypes = bodyParameter.options.mediaTypes ?? [
+                    bodyParameter.options.mediaType,
+                ]
                 body = {
                     description: bodyParameter.options.description,
-                    content: {
-                        [bodyParameter.options?.mediaType]: {
-                            schema: bodyParameter.schema as z.ZodType<unknown>,
-                        },
-                    },
+                    content: Object.fromEntries(
+                        mediaTypes.map((mediaType) => [
+                            mediaType,
+                            { schema: bodyParameter!.schema as z.ZodType<unknown> },
+                        ])
+                    ),
                 }
             }
         }
+        const embeddedBodies = Object.entries(embeddedBodyParameters)
+        if (embeddedBodies.length) {
+            // every embedded body checks the content type, so only the media types all accept apply
+            const mediaTypeLists = embeddedBodies.map(
+                ([, parameter]) => parameter.options.mediaTypes ?? [parameter.options.mediaType]
+            )
+            const shared = mediaTypeLists[0].filter((mediaType) =>
+                mediaTypeLists.every((mediaTypes) => mediaTypes.includes(mediaType))
+            )
+            let schema: z.ZodType = z.object(
+                Object.fromEntries(
+                    embeddedBodies.map(([name, parameter]) => [name, parameter.schema!])
+                )
+            )
+            // a non-embedded body reads the same document as a whole
+            if (bodyParameter && !bodyParameter.schemaOr)
+                schema = z.intersection(bodyParameter.schema!, schema)
+            body = {
+                description: body?.description,
+                content: {
+                    ...body?.content,
+                    ...Object.fromEntries(
+                        (shared.length ? shared : mediaTypeLists[0]).map((mediaType) => [
+                            mediaType,
+                            { schema },
+                        ])
+                    ),
+                },
+            }
+        }
+        if (!body && (formParameter || Object.keys(fileParameters).length)) {
+            const fileSchemas: Record<string, z.ZodType> = {}
+            const encoding: Record<string, { contentType: string }> = {}
+            for (const [key, parameter] of Object.entries(fileParameters)) {
+                fileSchemas[key] = parameter.schema.meta({
+                    type: "string",
+                    format: "binary",
+                    description: parameter.options.description,
+                })
+                if (parameter.options.mediaTypes)
+                    encoding[key] = { contentType: parameter.options.mediaTypes.join(", ") }
+            }
+            // files can only be uploaded as multipart form data
+            const mediaType = Object.keys(fileSchemas).length
+                ? "multipart/form-data"
+                : formParameter!.options.mediaType
+            body = {
+                description: formParameter?.options.description,
+                content: {
+                    [mediaType]: {
+                        schema: (formParameter?.schema ?? z.object({})).extend(fileSchemas),
+                        encoding: Object.keys(encoding).length ? encoding : undefined,
+                    },
+                },
+            }
+        }
         return {
             method: this.method.toLowerCase() as HTTPMethodLower,
             path: this.path,
@@ -240,13 +599,16 @@ export class Route<
  * Represents a node in the routing tree structure.
  *
  * Each node corresponds to a segment of the URL path and can contain child nodes,
- * associated routes for different HTTP methods, middleware, and parameter names for dynamic segments.
+ * associated routes for different HTTP methods, middleware, fallback handlers,
+ * and parameter names for dynamic segments.
  */
 export class RouteNode {
     private inner: Record<string, RouteNode>
     name: string
     routes: Record<string, Route<any, any, any>>
     middleware: Middleware[]
+    notFoundHandler?: NotFoundHandler
+    methodNotAllowedHandler?: MethodNotAllowedHandler
     paramNames: string[]
 
     constructor(name: string) {
@@ -309,11 +671,21 @@ export class RouteMatcher {
         return tree
     }
 
-    set(path: string | null, values: { middleware?: Middleware[] }): RouteNode {
+    set(
+        path: string | null,
+        values: {
+            middleware?: Middleware[]
+            notFoundHandler?: NotFoundHandler
+            methodNotAllowedHandler?: MethodNotAllowedHandler
+        }
+    ): RouteNode {
         let node: RouteNode
         if (path === null) node = this.tree
         else node = this.get(path)
         if (values.middleware) node.middleware = values.middleware
+        if (values.notFoundHandler) node.notFoundHandler = values.notFoundHandler
+        if (values.methodNotAllowedHandler)
+            node.methodNotAllowedHandler = values.methodNotAllowedHandler
         return node
     }
 
@@ -329,22 +701,41 @@ export class RouteMatcher {
     match(
         method: string,
         path: string
-    ): [Route<any, any, any> | undefined | null, Record<string, string>, Middleware[]] {
+    ): [
+        Route<any, any, any> | undefined | null,
+        Record<string, string>,
+        Middleware[],
+        Pick<RouteNode, "notFoundHandler" | "methodNotAllowedHandler">,
+    ] {
         const nodes = fixPathSlashes(path).split("/").slice(1)
         const paramValues: string[] = []
         const middleware: Middleware[] = [...this.tree.middleware]
+        // fallback handlers of the deepest node declaring them
+        const fallback: Pick<RouteNode, "notFoundHandler" | "methodNotAllowedHandler"> = {
+            notFoundHandler: this.tree.notFoundHandler,
+            methodNotAllowedHandler: this.tree.methodNotAllowedHandler,
+        }
         let tree = this.tree
         for (const [index, node] of nodes.entries()) {
             let nextMatcher = tree.match(node)
-            if (!nextMatcher) return [undefined, {}, middleware]
+            if (!nextMatcher) return [undefined, {}, middleware, fallback]
             tree = nextMatcher
             // push middleware attached to this node
             middleware.push(...tree.middleware)
+            fallback.notFoundHandler = tree.notFoundHandler ?? fallback.notFoundHandler
+            fallback.methodNotAllowedHandler =
+                tree.methodNotAllowedHandler ?? fallback.methodNotAllowedHandler
             if (tree.name == "{}") paramValues.push(node)
             if (index == nodes.length - 1) {
                 if (!tree.routes[method]) {
-                    if (Object.keys(tree.routes).length == 0) return [undefined, {}, middleware]
-                    return [null, { allow: Object.keys(tree.routes).join(", ") }, middleware]
+                    if (Object.keys(tree.routes).length == 0)
+                        return [undefined, {}, middleware, fallback]
+                    return [
+                        null,
+                        { allow: Object.keys(tree.routes).join(", ") },
+                        middleware,
+                        fallback,
+                    ]
                 }
                 const params: Record<string, string> = {}
                 for (let i = 0; i < tree.paramNames.length; i++) {
@@ -352,9 +743,9 @@ export class RouteMatcher {
                 }
                 // push middleware attached to this route
                 middleware.push(...tree.routes[method].middleware)
-                return [tree.routes[method], params, middleware]
+                return [tree.routes[method], params, middleware, fallback]
             }
         }
-        return [undefined, {}, middleware]
+        return [undefined, {}, middleware, fallback]
     }
 }
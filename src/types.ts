@@ -1,6 +1,6 @@
 import type { z } from "zod"
 import type { LinksObject } from "openapi3-ts/oas31"
-import type { Dependency } from "./core"
+import type { App, Dependency } from "./core"
 import type { Route } from "./routing"
 
 /** Runtime arguments for the request to be declared in `.d.ts`. */
@@ -37,6 +37,12 @@ export type RouteParameterOptions = {
     preprocessor?: Preprocessor
 }
 
+/** Options for file parameters declaration. */
+export type FileParameterOptions = Omit<RouteParameterOptions, "mediaType" | "preprocessor"> & {
+    maxSize?: number
+    mediaTypes?: string[]
+}
+
 /** Options for the response schema in `Responds`. */
 export type RespondsOptions = {
     mediaType?: string
@@ -45,10 +51,49 @@ export type RespondsOptions = {
     links?: LinksObject
 }
 
+/**
+ * Decodes the body of a request of a media type into a value to be validated.
+ * Decoders are called at most once per request.
+ */
+export type BodyDecoder = (req: Request) => Awaitable<unknown>
+
+/** An RFC 6902 JSON Patch operation. */
+export type JSONPatchOperation =
+    | { op: "add" | "replace" | "test"; path: string; value: unknown }
+    | { op: "remove"; path: string }
+    | { op: "move" | "copy"; from: string; path: string }
+
+/** An RFC 7396 JSON Merge Patch document of an object, `null` removing fields. */
+export type MergePatchDocument<T> = {
+    [K in keyof T]?:
+        | (T[K] extends readonly any[]
+              ? T[K]
+              : T[K] extends Record<string, any>
+                ? MergePatchDocument<T[K]>
+                : T[K])
+        | null
+}
+
+/** A validated patch document, given to handlers of `MergePatchBody` and `JSONPatchBody` parameters. */
+export type Patch<D, T> = {
+    /** The validated patch document. */
+    document: D
+    /** Applies the patch to an existing object, resolving to the patched object validated against the full schema. */
+    apply: (target: T) => Promise<T>
+}
+
 /** Types that can be used to declare `BodyParameter`s. */
 export type ZodBodyable = z.ZodType | typeof String | typeof Blob | typeof ReadableStream
 
-export type RouteParameterLocation = "path" | "query" | "header" | "cookie" | "body" | "@depends"
+export type RouteParameterLocation =
+    | "path"
+    | "query"
+    | "header"
+    | "cookie"
+    | "body"
+    | "form"
+    | "file"
+    | "@depends"
 
 /** Base type for route parameters. */
 export type RouteParameter<S extends z.ZodType> = {
@@ -62,23 +107,51 @@ export type PathParameter<S extends z.ZodType> = RouteParameter<S> & {
     location: "path"
     schema: S
 }
+/** OpenAPI serialization styles of query parameters. */
+export type QueryParameterStyle = "form" | "spaceDelimited" | "pipeDelimited" | "deepObject"
+
+/** Options for query parameters declaration. */
+export type QueryParameterOptions = Omit<RouteParameterOptions, "mediaType"> & {
+    style?: QueryParameterStyle
+    explode?: boolean
+}
+
 export type QueryParameter<S extends z.ZodType> = RouteParameter<S> & {
     location: "query"
     schema: S
+    options: { group?: boolean; style?: QueryParameterStyle; explode?: boolean }
 }
 export type HeaderParameter<S extends z.ZodType> = RouteParameter<S> & {
     location: "header"
     schema: S
+    options: { group?: boolean }
 }
 export type CookieParameter<S extends z.ZodType> = RouteParameter<S> & {
     location: "cookie"
     schema: S
+    options: { group?: boolean }
 }
 export type BodyParameter<S extends z.ZodType> = RouteParameter<S> & {
     location: "body"
     schema: S
+    options: {
+        mediaType: string
+        mediaTypes?: string[]
+        decoders?: Record<string, BodyDecoder>
+        embed?: boolean
+        patch?: { kind: "merge" | "json"; schema: z.ZodObject }
+    }
+}
+export type FormParameter<S extends z.ZodType> = RouteParameter<S> & {
+    location: "form"
+    schema: S
     options: { mediaType: string }
 }
+export type FileParameter<S extends z.ZodType> = RouteParameter<S> & {
+    location: "file"
+    schema: S
+    options: FileParameterOptions
+}
 export type DependsParameter<
     S extends z.ZodType,
     Ps extends RouteParameters,
@@ -192,14 +265,69 @@ export type Awaitable<T> = T | Promise<T>
 /** Shape for error handler. */
 export type ErrorHandler = (args: ArgsOf<{}>, e: any) => Awaitable<Response>
 
+/** Shape for exception handler, receiving the error it was registered for. */
+export type ExceptionHandler<E = any> = (args: ArgsOf<{}>, e: E) => Awaitable<Response>
+
+/** Error classes that exception handlers can be registered for. */
+export type ErrorClass = abstract new (...args: any) => any
+
+/** Mapping of error classes or `HTTPException` status codes to exception handlers. */
+export type ExceptionHandlers = Map<ErrorClass | number, ExceptionHandler>
+
+/** Exception handler entries accepted by `exceptionHandlers` init options. */
+export type ExceptionHandlersInit = Iterable<readonly [ErrorClass | number, ExceptionHandler]>
+
+/** Shape for handler of requests not matching any route. */
+export type NotFoundHandler = (args: ArgsOf<{}>) => Awaitable<Response>
+
+/** Shape for handler of requests matching a route path but none of its methods. */
+export type MethodNotAllowedHandler = (args: ArgsOf<{}>, allow: string[]) => Awaitable<Response>
+
+/** Lifecycle hooks of requests, run in registration order at each point of the request. */
+export type LifecycleHooks = {
+    /** Run before route matching. */
+    onRequest: ((args: ArgsOf<{}>) => Awaitable<void>)[]
+    /** Run after a route was matched, before middleware. */
+    onRouteMatched: ((args: ArgsOf<{}>, route: Route<any, any, any>) => Awaitable<void>)[]
+    /** Run after the route arguments were resolved, successfully or not. */
+    onArgsResolved: ((
+        args: ArgsOf<{}>,
+        route: Route<any, any, any>,
+        info: ResolveArgsInfo<RouteParameters>
+    ) => Awaitable<void>)[]
+    /** Run with the final response, errors thrown are logged and ignored. */
+    onResponse: ((
+        args: ArgsOf<{}>,
+        res: Response,
+        route?: Route<any, any, any>
+    ) => Awaitable<void>)[]
+    /** Run after an error was converted to a response, errors thrown are logged and ignored. */
+    onError: ((args: ArgsOf<{}>, e: any, res: Response) => Awaitable<void>)[]
+}
+
+/** Shape for startup and shutdown handlers of `App`. */
+export type LifespanHandler = () => Awaitable<void>
+
+/**
+ * Shape for lifespan of `App`, an async generator running startup code before its first `yield`
+ * and shutdown code after it.
+ */
+export type Lifespan = (app: App<any>) => AsyncGenerator<unknown, unknown, any>
+
 /** Shape for route handler. */
 export type RouteHandler<Args, R> = Args extends any ? (args: Args) => Awaitable<R> : never
 
-/** Shape for dependency handler. */
+/**
+ * Shape for dependency handler, either returning the dependency value or an async generator
+ * yielding the value once and running its teardown code after it.
+ */
 export type DependencyHandler<Args, R> = Args extends any
-    ? (args: Args, later: Later) => Awaitable<R>
+    ? (args: Args, later: Later) => Awaitable<R> | AsyncGenerator<R, unknown, undefined>
     : never
 
+/** Shape for teardown of a resolved dependency. */
+export type Teardown = () => Promise<void>
+
 /** Shape for middleware. */
 export type MiddlewareHandler = (args: ArgsOf<{}>, next: Next) => Awaitable<Response>
 
@@ -209,6 +337,27 @@ export type UnboundRoute<PsBase extends RouteParameters, Ps extends RouteParamet
     "method" | "path"
 > & { method?: never; path?: never }
 
+/** Introspection information of a dependency in a flattened dependency tree. */
+export type DependencyInfo = {
+    name: string
+    dependency: Dependency<any, any>
+    scope: DependencyScope
+    parameters: { name: string; location: RouteParameterLocation }[]
+    dependencies: DependencyInfo[]
+}
+
+/** Introspection information of a route, see `App.introspect`. */
+export type RouteInfo = {
+    method: HTTPMethod
+    path: string
+    name?: string
+    tags: string[]
+    middleware: string[]
+    parameters: { name: string; location: RouteParameterLocation }[]
+    dependencies: DependencyInfo[]
+    sideEffectDependencies: DependencyInfo[]
+}
+
 /** Error information for a single route parameter during `resolveArgs` */
 export type ResolveArgsError = {
     location: RouteParameterLocation
@@ -216,6 +365,39 @@ export type ResolveArgsError = {
     issues: z.core.$ZodIssue[]
 }
 
+/**
+ * Strict parameters mode of routes, rejecting query parameters and cookies that are not
+ * declared by the route, and request headers too if `headers` is set.
+ */
+export type StrictParameters = boolean | { headers?: boolean }
+
+/** Scope in which a resolved dependency value is reused. */
+export type DependencyScope = "request" | "app"
+
+/** Resolution of a dependency, shared across requests for app-scoped dependencies. */
+export type DependencyResolution = {
+    success: boolean
+    errors: ResolveArgsError[]
+    args: Record<string, any>
+    value?: unknown
+    teardowns?: Teardown[]
+}
+
+/** Input for `resolveArgs`, shared by the resolution of nested dependencies. */
+export type ResolveArgsInput = {
+    baseArgs: ArgsOf<{}>
+    rawParameters?: {
+        params?: Record<string, string>
+        queries?: Record<string, string[]>
+        cookies?: Record<string, string | undefined>
+    }
+    later: Later
+    dependencyCache?: Map<Dependency<any, any>, Promise<DependencyResolution>>
+    dependencyOverrides?: Map<Dependency<any, any>, Dependency<any, any>>
+    teardowns?: Teardown[]
+    strictParameters?: StrictParameters
+}
+
 /** Return type for `resolveArgs` */
 export type ResolveArgsInfo<Ps extends RouteParameters> = {
     success: boolean
@@ -328,4 +328,34 @@ describe("function createHandler", () => {
         expect(JSON.parse(result.body)).toEqual({ result: "ok", received: "test" })
         expect(result.headers).toEqual({ "content-type": "application/json" })
     })
+
+    test("[invocation] should start up the app once", async () => {
+        let startups = 0
+        const app = new App({ onStartup: [() => void startups++] })
+        app.get("/test", {
+            responseClass: PlainTextResponse,
+            handle: () => String(startups),
+        })
+
+        const handler = await createHandler(app)
+
+        const event: APIGatewayProxyEvent = {
+            httpMethod: "GET",
+            path: "/test",
+            headers: {},
+            body: null,
+            isBase64Encoded: false,
+        } as any
+
+        const context: Context = {} as any
+
+        const [result1, result2] = await Promise.all([
+            handler(event, context),
+            handler(event, context),
+        ])
+
+        expect(result1.body).toBe("1")
+        expect(result2.body).toBe("1")
+        expect(startups).toBe(1)
+    })
 })
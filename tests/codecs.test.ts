@@ -0,0 +1,109 @@
+import { z } from "zod"
+import { decodeCBOR, decodeMsgPack, encodeCBOR, encodeMsgPack } from "../src/codecs"
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex")
+const bytes = (hex: string) => new Uint8Array(Buffer.from(hex, "hex"))
+
+describe("function encodeMsgPack", () => {
+    test("[invocation]: return value", () => {
+        expect(hex(encodeMsgPack(null))).toBe("c0")
+        expect(hex(encodeMsgPack(true))).toBe("c3")
+        expect(hex(encodeMsgPack(1))).toBe("01")
+        expect(hex(encodeMsgPack(-1))).toBe("ff")
+        expect(hex(encodeMsgPack(200))).toBe("ccc8")
+        expect(hex(encodeMsgPack(-200))).toBe("d1ff38")
+        expect(hex(encodeMsgPack(2 ** 40))).toBe("cf0000010000000000")
+        expect(hex(encodeMsgPack(1.5))).toBe("cb3ff8000000000000")
+        expect(hex(encodeMsgPack("a"))).toBe("a161")
+        expect(hex(encodeMsgPack([1, 2]))).toBe("920102")
+        expect(hex(encodeMsgPack({ a: 1, b: undefined }))).toBe("81a16101")
+        expect(hex(encodeMsgPack(new Uint8Array([1, 2])))).toBe("c4020102")
+        expect(hex(encodeMsgPack(new Date(1000)))).toBe("d6ff00000001")
+        expect(hex(encodeMsgPack("x".repeat(40)))).toBe("d928" + "78".repeat(40))
+    })
+})
+
+describe("function decodeMsgPack", () => {
+    test("[invocation]: return value", () => {
+        expect(decodeMsgPack(bytes("c0"))).toBe(null)
+        expect(decodeMsgPack(bytes("ff"))).toBe(-1)
+        expect(decodeMsgPack(bytes("ca3fc00000"))).toBe(1.5)
+        expect(decodeMsgPack(bytes("cfffffffffffffffff"))).toBe(2n ** 64n - 1n)
+        expect(decodeMsgPack(bytes("82a16101a16292c2c3"))).toEqual({ a: 1, b: [false, true] })
+        expect(decodeMsgPack(bytes("d6ff00000001"))).toEqual(new Date(1000))
+        const value = {
+            id: 123456789,
+            name: "ü".repeat(20),
+            tags: Array.from({ length: 20 }, (_, i) => `t${i}`),
+            score: -0.25,
+            big: -(2 ** 40),
+            at: new Date(1500),
+        }
+        expect(decodeMsgPack(encodeMsgPack(value))).toEqual(value)
+    })
+
+    test("[invocation]: throw invalid", () => {
+        expect(() => decodeMsgPack(bytes("92"))).toThrow("Unexpected end of input.")
+        expect(() => decodeMsgPack(bytes("0101"))).toThrow(
+            "Unexpected data after MessagePack value."
+        )
+        expect(() => decodeMsgPack(bytes("c1"))).toThrow("Invalid MessagePack byte 0xc1.")
+    })
+})
+
+describe("function encodeCBOR", () => {
+    test("[invocation]: return value", () => {
+        expect(hex(encodeCBOR(null))).toBe("f6")
+        expect(hex(encodeCBOR(false))).toBe("f4")
+        expect(hex(encodeCBOR(10))).toBe("0a")
+        expect(hex(encodeCBOR(100))).toBe("1864")
+        expect(hex(encodeCBOR(1000))).toBe("1903e8")
+        expect(hex(encodeCBOR(-1000))).toBe("3903e7")
+        expect(hex(encodeCBOR(1.1))).toBe("fb3ff199999999999a")
+        expect(hex(encodeCBOR("IETF"))).toBe("6449455446")
+        expect(hex(encodeCBOR([1, [2, 3]]))).toBe("8201820203")
+        expect(hex(encodeCBOR({ a: 1, b: [2, 3] }))).toBe("a26161016162820203")
+        expect(hex(encodeCBOR(new Uint8Array([1, 2])))).toBe("420102")
+        expect(hex(encodeCBOR(18446744073709551615n))).toBe("1bffffffffffffffff")
+    })
+})
+
+describe("function decodeCBOR", () => {
+    test("[invocation]: return value", () => {
+        expect(decodeCBOR(bytes("f97e00"))).toBeNaN()
+        expect(decodeCBOR(bytes("f93c00"))).toBe(1)
+        expect(decodeCBOR(bytes("3bffffffffffffffff"))).toBe(-18446744073709551616n)
+        expect(decodeCBOR(bytes("c249010000000000000000"))).toBe(18446744073709551616n)
+        expect(decodeCBOR(bytes("c074323031332d30332d32315432303a30343a30305a"))).toEqual(
+            new Date("2013-03-21T20:04:00Z")
+        )
+        expect(decodeCBOR(bytes("c11a514b67b0"))).toEqual(new Date(1363896240000))
+        expect(decodeCBOR(bytes("9f018202039f0405ffff"))).toEqual([1, [2, 3], [4, 5]])
+        expect(decodeCBOR(bytes("bf61610161629f0203ffff"))).toEqual({ a: 1, b: [2, 3] })
+        expect(decodeCBOR(bytes("7f657374726561646d696e67ff"))).toBe("streaming")
+        expect(decodeCBOR(bytes("5f42010243030405ff"))).toEqual(new Uint8Array([1, 2, 3, 4, 5]))
+        const value = { id: 1, name: "ü".repeat(30), nested: { list: [true, null, -5] } }
+        expect(decodeCBOR(encodeCBOR(value))).toEqual(value)
+    })
+
+    test("[invocation]: throw invalid", () => {
+        expect(() => decodeCBOR(bytes("82"))).toThrow("Unexpected end of input.")
+        expect(() => decodeCBOR(bytes("ff"))).toThrow("Unexpected CBOR break.")
+        expect(() => decodeCBOR(bytes("0a0a"))).toThrow("Unexpected data after CBOR value.")
+    })
+})
+
+describe("decoded maps", () => {
+    test("[invocation]: return value unsafe keys", () => {
+        const value = JSON.parse('{"name":"a","__proto__":{"isAdmin":true}}')
+        const schema = z.object({ name: z.string(), isAdmin: z.boolean().default(false) })
+        for (const decoded of [
+            decodeMsgPack(encodeMsgPack(value)),
+            decodeCBOR(encodeCBOR(value)),
+        ] as Record<string, unknown>[]) {
+            expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype)
+            expect(Object.hasOwn(decoded, "__proto__")).toBe(true)
+            expect(schema.parse(decoded)).toStrictEqual({ name: "a", isAdmin: false })
+        }
+    })
+})
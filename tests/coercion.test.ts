@@ -0,0 +1,76 @@
+import { z } from "zod"
+import { coerce, safeParseCoerced } from "../src/coercion"
+
+describe("function coerce", () => {
+    test("[invocation]: return value", () => {
+        expect(coerce("12", z.number()).value).toBe(12)
+        expect(coerce("-3", z.bigint()).value).toBe(-3n)
+        expect(coerce("false", z.boolean().optional()).value).toBe(false)
+        expect(coerce("1000", z.date()).value).toEqual(new Date(1000))
+        expect(coerce("null", z.number().nullable()).value).toBe(null)
+        expect(coerce("2", z.enum({ a: 1, b: 2 })).value).toBe(2)
+        expect(coerce("1", z.literal(["1", 1])).value).toBe("1")
+        expect(coerce("5", z.union([z.literal("all"), z.number()])).value).toBe(5)
+        expect(coerce("all", z.union([z.number(), z.literal("all")])).value).toBe("all")
+        expect(coerce("7", z.string().or(z.number())).value).toBe("7")
+        expect(coerce("3", z.number().transform(String)).value).toBe(3)
+        expect(coerce("3", z.string().pipe(z.coerce.number())).value).toBe("3")
+        expect(coerce(["1", "2"], z.number().array().default([])).value).toStrictEqual([1, 2])
+        expect(
+            coerce(
+                { a: "1", b: { c: "true" }, d: "x" },
+                z.object({ a: z.number(), b: z.object({ c: z.boolean() }) })
+            ).value
+        ).toStrictEqual({ a: 1, b: { c: true }, d: "x" })
+        expect(coerce(12, z.string()).value).toBe(12)
+        expect(coerce("text", z.string()).value).toBe("text")
+    })
+
+    test("[invocation]: return value issues", () => {
+        expect(coerce("abc", z.number()).issues).toMatchObject([
+            {
+                code: "invalid_type",
+                expected: "number",
+                path: [],
+                message: 'Cannot convert "abc" to a number.',
+            },
+        ])
+        expect(coerce("", z.number()).issues.length).toBe(1)
+        expect(coerce("1.5", z.bigint()).issues[0].message).toBe(
+            'Cannot convert "1.5" to a bigint.'
+        )
+        expect(coerce("yes", z.boolean()).issues[0].message).toBe(
+            'Cannot convert "yes" to a boolean.'
+        )
+        expect(coerce("soon", z.date()).issues[0].message).toBe('Cannot convert "soon" to a date.')
+        expect(coerce("x", z.null()).issues[0].message).toBe('Cannot convert "x" to null.')
+        expect(coerce(["1", "x"], z.number().array(), ["ids"]).issues[0].path).toStrictEqual([
+            "ids",
+            1,
+        ])
+        expect(coerce("x", z.union([z.number(), z.boolean()])).issues).toStrictEqual([])
+    })
+})
+
+describe("function safeParseCoerced", () => {
+    test("[invocation]: return value", async () => {
+        const schema = z.object({ page: z.number(), size: z.number().max(10), sort: z.string() })
+        expect(await safeParseCoerced(schema, { page: "1", size: "5", sort: "asc" })).toStrictEqual(
+            {
+                success: true,
+                data: { page: 1, size: 5, sort: "asc" },
+            }
+        )
+        const parseOut = await safeParseCoerced(schema, { page: "first", size: "20" })
+        expect(parseOut.success).toBe(false)
+        expect(parseOut.error!.issues.map((issue) => [issue.path, issue.message])).toStrictEqual([
+            [["page"], 'Cannot convert "first" to a number.'],
+            [["size"], "Too big: expected number to be <=10"],
+            [["sort"], "Invalid input: expected string, received undefined"],
+        ])
+        expect(await safeParseCoerced(z.number().catch(0), "x")).toStrictEqual({
+            success: true,
+            data: 0,
+        })
+    })
+})
@@ -1,6 +1,25 @@
 import { z } from "zod"
 
-import { App, Router, Dependency, Middleware, Query, Base } from "../src"
+import {
+    App,
+    AppValidationError,
+    Body,
+    Router,
+    Dependency,
+    Depends,
+    File,
+    Form,
+    Header,
+    HTMLResponse,
+    HTTPException,
+    JSONPatchBody,
+    JSONResponse,
+    MergePatchBody,
+    Middleware,
+    Path,
+    Query,
+    Base,
+} from "../src"
 import { createResolveLater } from "../src/helpers"
 import { Next } from "../src/types"
 
@@ -12,6 +31,7 @@ import {
     appMMerge,
     appRootPath,
     appWithParams,
+    m1,
     resetDepCounters,
 } from "./core.setup"
 
@@ -28,6 +48,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -64,6 +85,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -98,6 +120,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                     "Access-Control-Request-Method": "POST",
@@ -118,6 +141,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -152,6 +176,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -172,6 +197,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "iminvalid",
                 },
@@ -182,12 +208,502 @@ describe("class App", () => {
         expect(await res1.json()).toEqual({ detail: "Invalid Authentication" })
     })
 
+    test("[method] handle: http exception default", async () => {
+        const tempApp = new App({})
+        tempApp.get("/teapot", {
+            handle: () => {
+                throw new HTTPException(418, { headers: { "X-Teapot": "1" } })
+            },
+        })
+        const res1 = await tempApp.handle({ req: new Request("http://a.co/teapot") })
+        expect(res1.status).toBe(418)
+        expect(res1.headers.get("X-Teapot")).toBe("1")
+        expect(await res1.json()).toEqual({ detail: "I'm a teapot" })
+    })
+
+    test("[method] handle: exception handlers", async () => {
+        class DomainError extends Error {}
+        class OutOfStockError extends DomainError {}
+        const tempApp = new App({
+            middleware: [m1],
+            exceptionHandlers: [
+                [DomainError, () => new Response("domain", { status: 400 })],
+                [404, (_, e: HTTPException) => new Response(e.detail, { status: 404 })],
+            ],
+        })
+        const tempAppSub = new Router({
+            base: Base<typeof tempApp>(),
+            exceptionHandlers: [
+                [OutOfStockError, () => new Response("out of stock", { status: 409 })],
+            ],
+        })
+        const outOfStock = new Dependency({
+            handle: (): number => {
+                throw new OutOfStockError()
+            },
+        })
+        tempApp.get("/domain", {
+            handle: () => {
+                throw new OutOfStockError()
+            },
+        })
+        tempApp.get("/missing", {
+            handle: () => {
+                throw new HTTPException(404, { detail: "Missing Item" })
+            },
+        })
+        tempAppSub.get("/stock", {
+            parameters: { stock: Depends(outOfStock) },
+            handle: ({ stock }) => stock,
+        })
+        tempApp.include("/sub", tempAppSub)
+
+        const res1 = await tempApp.handle({ req: new Request("http://a.co/domain") })
+        expect(res1.status).toBe(400)
+        expect(await res1.text()).toBe("domain")
+        expect(res1.headers.get("X-M")).toBe("1")
+        const res2 = await tempApp.handle({ req: new Request("http://a.co/sub/stock") })
+        expect(res2.status).toBe(409)
+        expect(await res2.text()).toBe("out of stock")
+        const res3 = await tempApp.handle({ req: new Request("http://a.co/missing") })
+        expect(res3.status).toBe(404)
+        expect(await res3.text()).toBe("Missing Item")
+    })
+
+    test("[method] handle: router error handler", async () => {
+        const tempApp = new App({
+            middleware: [m1],
+            errorHandler: () => new Response("app", { status: 500 }),
+        })
+        const tempAppSub = new Router({
+            base: Base<typeof tempApp>(),
+            errorHandler: () => new JSONResponse({ error: "billing" }, { status: 500 }),
+        })
+        const tempAppSubSub = new Router({
+            base: Base<typeof tempAppSub>(),
+            errorHandler: () => new JSONResponse({ error: "invoices" }, { status: 500 }),
+        })
+        const throwError = () => {
+            throw new Error("Unexpected")
+        }
+        tempApp.get("/", { handle: throwError })
+        tempAppSub.get("/", { handle: throwError })
+        tempAppSub.get("/http", {
+            handle: () => {
+                throw new HTTPException(402)
+            },
+        })
+        tempAppSubSub.get("/", { handle: throwError })
+        tempAppSub.include("/invoices", tempAppSubSub)
+        tempApp.include("/billing", tempAppSub)
+
+        const res1 = await tempApp.handle({ req: new Request("http://a.co/") })
+        expect(res1.status).toBe(500)
+        expect(await res1.text()).toBe("app")
+        expect(res1.headers.get("X-M")).toBeNull()
+        const res2 = await tempApp.handle({ req: new Request("http://a.co/billing") })
+        expect(res2.status).toBe(500)
+        expect(await res2.json()).toEqual({ error: "billing" })
+        expect(res2.headers.get("X-M")).toBe("1")
+        const res3 = await tempApp.handle({ req: new Request("http://a.co/billing/invoices") })
+        expect(await res3.json()).toEqual({ error: "invoices" })
+        // the router error handler takes precedence over the default HTTPException response
+        const res4 = await tempApp.handle({ req: new Request("http://a.co/billing/http") })
+        expect(res4.status).toBe(500)
+        expect(await res4.json()).toEqual({ error: "billing" })
+
+        // and over the exception handlers of the app
+        const tempApp2 = new App({
+            exceptionHandlers: [[Error, () => new Response("appexc", { status: 598 })]],
+        })
+        const tempApp2Sub = new Router({
+            base: Base<typeof tempApp2>(),
+            exceptionHandlers: [[402, () => new Response("payment", { status: 402 })]],
+            errorHandler: () => new JSONResponse({ error: "billing" }, { status: 500 }),
+        })
+        tempApp2.get("/", { handle: throwError })
+        tempApp2Sub.get("/", { handle: throwError })
+        tempApp2Sub.get("/http", {
+            handle: () => {
+                throw new HTTPException(402)
+            },
+        })
+        tempApp2.include("/billing", tempApp2Sub)
+        const res5 = await tempApp2.handle({ req: new Request("http://a.co/") })
+        expect(res5.status).toBe(598)
+        const res6 = await tempApp2.handle({ req: new Request("http://a.co/billing") })
+        expect(await res6.json()).toEqual({ error: "billing" })
+        const res7 = await tempApp2.handle({ req: new Request("http://a.co/billing/http") })
+        expect(await res7.text()).toBe("payment")
+    })
+
+    test("[method] handle: custom not found and method not allowed", async () => {
+        const tempApp = new App({
+            notFoundHandler: ({ req }) =>
+                new HTMLResponse(`<h1>${new URL(req.url).pathname} not found</h1>`, {
+                    status: 404,
+                }),
+        })
+        const tempAppSub = new Router({
+            base: Base<typeof tempApp>(),
+            notFoundHandler: () => new JSONResponse({ title: "Not Found" }, { status: 404 }),
+            methodNotAllowedHandler: (_, allow) =>
+                new JSONResponse({ title: "Method Not Allowed", allow }, { status: 405 }),
+        })
+        tempApp.get("/page", { handle: () => null })
+        tempAppSub.get("/items", { handle: () => null })
+        tempAppSub.post("/items", { handle: () => null })
+        tempApp.include("/api", tempAppSub)
+
+        const res1 = await tempApp.handle({ req: new Request("http://a.co/nopage") })
+        expect(res1.status).toBe(404)
+        expect(await res1.text()).toBe("<h1>/nopage not found</h1>")
+        const res2 = await tempApp.handle({
+            req: new Request("http://a.co/page", { method: "POST" }),
+        })
+        expect(res2.status).toBe(405)
+        expect(res2.headers.get("Allow")).toBe("GET")
+        expect(await res2.json()).toEqual({ detail: "Method Not Allowed" })
+        const res3 = await tempApp.handle({ req: new Request("http://a.co/api/noitems") })
+        expect(res3.status).toBe(404)
+        expect(await res3.json()).toEqual({ title: "Not Found" })
+        const res4 = await tempApp.handle({
+            req: new Request("http://a.co/api/items", { method: "PUT" }),
+        })
+        expect(res4.status).toBe(405)
+        expect(res4.headers.get("Allow")).toBe("GET, POST")
+        expect(await res4.json()).toEqual({ title: "Method Not Allowed", allow: ["GET", "POST"] })
+
+        // responses with immutable headers are copied to add the Allow header
+        const errorApp = new App({ methodNotAllowedHandler: () => Response.error() })
+        errorApp.get("/items", { handle: () => null })
+        const res5 = await errorApp.handle({
+            req: new Request("http://a.co/items", { method: "POST" }),
+        })
+        expect(res5.status).toBe(405)
+        expect(res5.headers.get("Allow")).toBe("GET")
+        const redirectApp = new App({
+            methodNotAllowedHandler: () => Response.redirect("http://a.co/", 303),
+        })
+        redirectApp.get("/items", { handle: () => null })
+        const res6 = await redirectApp.handle({
+            req: new Request("http://a.co/items", { method: "POST" }),
+        })
+        expect(res6.status).toBe(303)
+        expect(res6.headers.get("Location")).toBe("http://a.co/")
+        expect(res6.headers.get("Allow")).toBe("GET")
+    })
+
+    test("[method] handle: problem details", async () => {
+        const tempApp = new App({ problemDetails: true, openapiUrl: null })
+        tempApp.get("/items/{itemId}", {
+            parameters: { itemId: Path(z.number()) },
+            handle: ({ itemId }) => {
+                throw new HTTPException(404, { detail: `Item ${itemId} not found` })
+            },
+        })
+
+        const res1 = await tempApp.handle({ req: new Request("http://a.co/items/abc") })
+        expect(res1.status).toBe(422)
+        expect(res1.headers.get("Content-Type")).toBe("application/problem+json")
+        const body1 = await res1.json()
+        expect(body1).toMatchObject({
+            type: "about:blank",
+            title: "Unprocessable Content",
+            status: 422,
+            detail: "Request validation failed.",
+            instance: "/items/abc",
+        })
+        expect(body1.errors).toMatchObject([{ location: "path", name: "itemId" }])
+        const res2 = await tempApp.handle({ req: new Request("http://a.co/items/1") })
+        expect(res2.status).toBe(404)
+        expect(await res2.json()).toEqual({
+            type: "about:blank",
+            title: "Not Found",
+            status: 404,
+            detail: "Item 1 not found",
+            instance: "/items/1",
+        })
+        const res3 = await tempApp.handle({ req: new Request("http://a.co/nothing") })
+        expect(res3.status).toBe(404)
+        expect(res3.headers.get("Content-Type")).toBe("application/problem+json")
+        const res4 = await tempApp.handle({
+            req: new Request("http://a.co/items/1", { method: "POST" }),
+        })
+        expect(res4.status).toBe(405)
+        expect(res4.headers.get("Allow")).toBe("GET")
+        expect((await res4.json()).title).toBe("Method Not Allowed")
+        tempApp.patch("/items/{itemId}", {
+            parameters: { patch: MergePatchBody(z.object({ name: z.string() })) },
+            handle: ({ patch }) => patch.apply({ name: "a" }),
+        })
+        const res5 = await tempApp.handle({
+            req: new Request("http://a.co/items/1", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/merge-patch+json" },
+                body: JSON.stringify({ name: null }),
+            }),
+        })
+        expect(res5.status).toBe(422)
+        const body5 = await res5.json()
+        expect(body5.detail).toBe("Patched value validation failed.")
+        expect(body5.errors).toMatchObject([
+            { location: "body", name: "patch", issues: [{ path: ["name"] }] },
+        ])
+
+        const openapi = tempApp.openapi()
+        expect(
+            Object.keys(openapi.paths!["/items/{itemId}"].get!.responses!["422"].content)
+        ).toEqual(["application/problem+json"])
+    })
+
+    test("[method] handle: debug error page", async () => {
+        const consoleError = jest.spyOn(console, "error").mockImplementation(() => {})
+        const tempApp = new App({ debug: true })
+        const tempAppNoDebug = new App({})
+        for (const a of [tempApp, tempAppNoDebug])
+            a.get("/items/{itemId}", {
+                parameters: { itemId: Path(z.number()) },
+                handle: () => {
+                    throw new Error("Something broke")
+                },
+            })
+
+        const res1 = await tempApp.handle({ req: new Request("http://a.co/items/1") })
+        expect(res1.status).toBe(500)
+        expect(res1.headers.get("Content-Type")).toBe("text/html;charset=utf-8")
+        expect(await res1.text()).toContain("Error: Something broke")
+        const res2 = await tempApp.handle({
+            req: new Request("http://a.co/items/1", { headers: { Accept: "application/json" } }),
+        })
+        expect(res2.status).toBe(500)
+        const report = await res2.json()
+        expect(report.error.message).toBe("Something broke")
+        expect(report.route).toEqual({ method: "GET", path: "/items/{itemId}" })
+        expect(report.parameters).toEqual({ itemId: 1 })
+        const res3 = await tempAppNoDebug.handle({ req: new Request("http://a.co/items/1") })
+        expect(res3.status).toBe(500)
+        expect(await res3.text()).toBe("Internal Server Error")
+        expect(consoleError).toHaveBeenCalledTimes(3)
+        consoleError.mockRestore()
+    })
+
+    test("[method] handle: lifecycle hooks", async () => {
+        const consoleError = jest.spyOn(console, "error").mockImplementation(() => {})
+        const calls: string[] = []
+        const tempApp = new App({
+            errorHandler: () => new Response("error", { status: 500 }),
+            hooks: {
+                onRequest: [({ req }) => void calls.push(`request ${new URL(req.url).pathname}`)],
+                onRouteMatched: [(_, route) => void calls.push(`matched ${route.path}`)],
+                onArgsResolved: [
+                    (_, route, info) =>
+                        void calls.push(
+                            `resolved ${info.success} ${info.errors.map((e) => e.name)}`
+                        ),
+                ],
+                onError: [(_, e, res) => void calls.push(`error ${e.message} ${res.status}`)],
+                onResponse: [
+                    (_, res, route) => void calls.push(`response ${res.status} ${route?.path}`),
+                    () => {
+                        throw new Error("Ignored")
+                    },
+                ],
+            },
+        })
+        tempApp.get("/items/{itemId}", {
+            parameters: { itemId: Path(z.number()) },
+            handle: ({ itemId }) => {
+                if (itemId == 0) throw new Error("Zero")
+                return itemId
+            },
+        })
+
+        await tempApp.handle({ req: new Request("http://a.co/items/1") })
+        expect(calls).toEqual([
+            "request /items/1",
+            "matched /items/{itemId}",
+            "resolved true ",
+            "response 200 /items/{itemId}",
+        ])
+        calls.length = 0
+        await tempApp.handle({ req: new Request("http://a.co/items/abc") })
+        expect(calls).toEqual([
+            "request /items/abc",
+            "matched /items/{itemId}",
+            "resolved false itemId",
+            "response 422 /items/{itemId}",
+        ])
+        calls.length = 0
+        await tempApp.handle({ req: new Request("http://a.co/items/0") })
+        expect(calls).toEqual([
+            "request /items/0",
+            "matched /items/{itemId}",
+            "resolved true ",
+            "error Zero 500",
+            "response 500 /items/{itemId}",
+        ])
+        calls.length = 0
+        await tempApp.handle({ req: new Request("http://a.co/nothing") })
+        expect(calls).toEqual(["request /nothing", "response 404 undefined"])
+        consoleError.mockRestore()
+    })
+
     test("[method] openapi: return value simple", () => {
         const openapi = app.openapi()
         expect(openapi).toBeTruthy()
         expect(Object.entries(openapi.paths!).length).toBeTruthy()
     })
 
+    test("[method] openapi: form and file request body", async () => {
+        const tempApp = new App({})
+        tempApp.post("/profile", {
+            parameters: {
+                profile: Form(z.object({ name: z.string(), age: z.number() })),
+                avatar: File({ mediaTypes: ["image/png", "image/jpeg"] }),
+            },
+            handle: ({ profile, avatar }) => ({ ...profile, size: avatar.size }),
+        })
+        tempApp.post("/login", {
+            parameters: { login: Form(z.object({ username: z.string() })) },
+            handle: ({ login }) => login,
+        })
+        const openapi = tempApp.openapi()
+        expect(openapi.paths!["/profile"].post!.requestBody).toEqual({
+            content: {
+                "multipart/form-data": {
+                    schema: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string" },
+                            age: { type: "number" },
+                            avatar: { type: "string", format: "binary" },
+                        },
+                        required: ["name", "age", "avatar"],
+                    },
+                    encoding: { avatar: { contentType: "image/png, image/jpeg" } },
+                },
+            },
+        })
+        expect(Object.keys((openapi.paths!["/login"].post!.requestBody as any).content)).toEqual([
+            "application/x-www-form-urlencoded",
+        ])
+
+        const formData = new FormData()
+        formData.append("name", "a")
+        formData.append("age", "30")
+        formData.append("avatar", new Blob(["12"], { type: "image/png" }), "avatar.png")
+        const res = await tempApp.handle({
+            req: new Request("http://a.co/profile", { method: "POST", body: formData }),
+        })
+        expect(await res.json()).toEqual({ name: "a", age: 30, size: 2 })
+    })
+
+    test("[method] openapi: body media types", async () => {
+        const tempApp = new App({})
+        tempApp.post("/items", {
+            parameters: {
+                item: Body(z.object({ name: z.string() }), {
+                    mediaTypes: ["application/json", "application/x-www-form-urlencoded"],
+                }),
+            },
+            handle: ({ item }) => item,
+        })
+        const openapi = tempApp.openapi()
+        expect(Object.keys((openapi.paths!["/items"].post!.requestBody as any).content)).toEqual([
+            "application/json",
+            "application/x-www-form-urlencoded",
+        ])
+
+        const res1 = await tempApp.handle({
+            req: new Request("http://a.co/items", {
+                method: "POST",
+                headers: { "Content-Type": "application/x-www-form-urlencoded" },
+                body: "name=a",
+            }),
+        })
+        expect(await res1.json()).toEqual({ name: "a" })
+        const res2 = await tempApp.handle({
+            req: new Request("http://a.co/items", {
+                method: "POST",
+                headers: { "Content-Type": "application/xml" },
+                body: "<name>a</name>",
+            }),
+        })
+        expect(res2.status).toBe(415)
+        expect(await res2.json()).toEqual({
+            detail: 'Unsupported media type "application/xml", expected "application/json", "application/x-www-form-urlencoded".',
+        })
+    })
+
+    test("[method] openapi: patch bodies", async () => {
+        const item = z.object({ name: z.string(), price: z.number(), note: z.string().optional() })
+        const stored = { name: "a", price: 1, note: "n" }
+        const tempApp = new App({})
+        tempApp.patch("/items/merge", {
+            parameters: { patch: MergePatchBody(item) },
+            handle: ({ patch }) => patch.apply(stored),
+        })
+        tempApp.patch("/items/json", {
+            parameters: { patch: JSONPatchBody(item) },
+            handle: ({ patch }) => patch.apply(stored),
+        })
+        const openapi = tempApp.openapi()
+        expect(
+            Object.keys((openapi.paths!["/items/merge"].patch!.requestBody as any).content)
+        ).toEqual(["application/merge-patch+json"])
+        expect(
+            Object.keys((openapi.paths!["/items/json"].patch!.requestBody as any).content)
+        ).toEqual(["application/json-patch+json"])
+
+        const res1 = await tempApp.handle({
+            req: new Request("http://a.co/items/merge", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/merge-patch+json" },
+                body: JSON.stringify({ price: 2, note: null }),
+            }),
+        })
+        expect(await res1.json()).toEqual({ name: "a", price: 2 })
+        const res2 = await tempApp.handle({
+            req: new Request("http://a.co/items/merge", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/merge-patch+json" },
+                body: JSON.stringify({ name: null }),
+            }),
+        })
+        expect(res2.status).toBe(422)
+        const res3 = await tempApp.handle({
+            req: new Request("http://a.co/items/json", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json-patch+json" },
+                body: JSON.stringify([{ op: "replace", path: "/price", value: "2" }]),
+            }),
+        })
+        expect(res3.status).toBe(422)
+        const res4 = await tempApp.handle({
+            req: new Request("http://a.co/items/json", {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json-patch+json" },
+                body: JSON.stringify([{ op: "replace", path: "/price", value: 3 }]),
+            }),
+        })
+        expect(await res4.json()).toEqual({ name: "a", price: 3, note: "n" })
+        for (const operation of [
+            { op: "copy", from: "/name", path: "/__proto__/polluted" },
+            { op: "replace", path: "/constructor", value: 1 },
+        ]) {
+            const res = await tempApp.handle({
+                req: new Request("http://a.co/items/json", {
+                    method: "PATCH",
+                    headers: { "Content-Type": "application/json-patch+json" },
+                    body: JSON.stringify([operation]),
+                }),
+            })
+            expect(res.status).toBe(422)
+        }
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
     test("[method] openapi: auto security requirement", () => {
         const tempApp = new App({
             securitySchemes: {
@@ -241,6 +757,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -277,6 +794,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -296,6 +814,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -316,6 +835,7 @@ describe("class App", () => {
                     description: "idesc",
                 }),
                 headers: {
+                    "Content-Type": "application/json",
                     "X-Rate-Limit": "20:100",
                     authorization: "Bearer myauthtoken",
                 },
@@ -452,6 +972,440 @@ describe("class App", () => {
         expect(counter1 + counter2).toEqual(3)
     })
 
+    test("[method] startup: lifespan once", async () => {
+        const calls: string[] = []
+        const tempApp = new App({
+            lifespan: async function* () {
+                await new Promise((r) => setTimeout(r, 10))
+                calls.push("lifespan startup")
+                yield
+                calls.push("lifespan shutdown")
+            },
+            onStartup: [() => void calls.push("startup")],
+            onShutdown: [() => void calls.push("shutdown")],
+        })
+        tempApp.get("/", { handle: () => calls.length })
+
+        const [res1, res2] = await Promise.all([
+            tempApp.fetch(new Request("http://a.co/")),
+            tempApp.fetch(new Request("http://a.co/")),
+        ])
+        expect(await res1.json()).toBe(2)
+        expect(await res2.json()).toBe(2)
+        expect(calls).toEqual(["lifespan startup", "startup"])
+        await tempApp.shutdown()
+        await tempApp.shutdown()
+        expect(calls).toEqual(["lifespan startup", "startup", "shutdown", "lifespan shutdown"])
+    })
+
+    test("[method] startup: shutdown in progress", async () => {
+        const calls: string[] = []
+        let generation = 0
+        const tempApp = new App({
+            lifespan: async function* () {
+                const id = ++generation
+                await new Promise((r) => setTimeout(r, 10))
+                calls.push(`lifespan startup ${id}`)
+                yield
+                calls.push(`lifespan shutdown ${id}`)
+            },
+            onStartup: [() => void calls.push("startup")],
+            onShutdown: [
+                async () => {
+                    await new Promise((r) => setTimeout(r, 20))
+                    calls.push("shutdown")
+                },
+            ],
+        })
+
+        await Promise.all([tempApp.startup(), tempApp.shutdown(), tempApp.startup()])
+        expect(calls).toEqual([
+            "lifespan startup 1",
+            "startup",
+            "shutdown",
+            "lifespan shutdown 1",
+            "lifespan startup 2",
+            "startup",
+        ])
+        await Promise.all([tempApp.shutdown(), tempApp.shutdown()])
+        expect(calls.slice(6)).toEqual(["shutdown", "lifespan shutdown 2"])
+    })
+
+    test("[method] startup: retry failed", async () => {
+        let attempts = 0
+        const tempApp = new App({
+            onStartup: [
+                () => {
+                    if (++attempts == 1) throw new Error("Connection refused")
+                },
+            ],
+        })
+        await expect(tempApp.startup()).rejects.toThrow("Connection refused")
+        await tempApp.startup()
+        await tempApp.startup()
+        expect(attempts).toBe(2)
+    })
+
+    test("[method] handle: dependency app scope", async () => {
+        let resolutions = 0
+        let failNext = false
+        const config = new Dependency({
+            scope: "app",
+            handle: async () => {
+                await new Promise((r) => setTimeout(r, 10))
+                if (failNext) throw new HTTPException(503)
+                return { resolution: ++resolutions }
+            },
+        })
+        const perRequest = new Dependency({
+            parameters: { config: Depends(config) },
+            handle: ({ config }) => config.resolution * 10,
+        })
+        const tempApp = new App({})
+        tempApp.get("/", {
+            parameters: { value: Depends(perRequest) },
+            handle: ({ value, config }) => {
+                // Type checks
+                const _0: number = value
+                const _1: { resolution: number } = config
+                return { value, resolution: config.resolution }
+            },
+        })
+
+        const [res1, res2] = await Promise.all([
+            tempApp.handle({ req: new Request("http://a.co/") }),
+            tempApp.handle({ req: new Request("http://a.co/") }),
+        ])
+        expect(await res1.json()).toEqual({ value: 10, resolution: 1 })
+        expect(await res2.json()).toEqual({ value: 10, resolution: 1 })
+        await tempApp.invalidateDependency(config)
+        const res3 = await tempApp.handle({ req: new Request("http://a.co/") })
+        expect(await res3.json()).toEqual({ value: 20, resolution: 2 })
+        await tempApp.invalidateDependency()
+        failNext = true
+        const res4 = await tempApp.handle({ req: new Request("http://a.co/") })
+        expect(res4.status).toBe(503)
+        failNext = false
+        const res5 = await tempApp.handle({ req: new Request("http://a.co/") })
+        expect(await res5.json()).toEqual({ value: 30, resolution: 3 })
+        await tempApp.startup()
+        await tempApp.shutdown()
+        expect(tempApp.dependencyCache.size).toBe(0)
+    })
+
+    test("[method] handle: dependency app scope request parameters", async () => {
+        const tenant = new Dependency({
+            scope: "app",
+            parameters: { x_tenant: Header(z.string()) },
+            handle: ({ x_tenant }) => x_tenant,
+        })
+        const tempApp = new App({})
+        tempApp.get("/", {
+            parameters: { tenant: Depends(tenant) },
+            handle: (args) => ({ tenant: args.tenant, header: args.x_tenant ?? null }),
+        })
+        const res1 = await tempApp.handle({
+            req: new Request("http://a.co/", { headers: { "x-tenant": "alice" } }),
+        })
+        expect(await res1.json()).toEqual({ tenant: "alice", header: null })
+        const res2 = await tempApp.handle({
+            req: new Request("http://a.co/", { headers: { "x-tenant": "bob" } }),
+        })
+        // the value is shared, the parameters of the first request are not
+        expect(await res2.json()).toEqual({ tenant: "alice", header: null })
+
+        const key = new Dependency({
+            scope: "app",
+            parameters: { x_key: Header(z.string()) },
+            handle: async ({ x_key }) => x_key,
+        })
+        tempApp.get("/key", {
+            parameters: { key: Depends(key) },
+            handle: ({ key }) => ({ key }),
+        })
+        const [res3, res4] = await Promise.all([
+            tempApp.handle({ req: new Request("http://a.co/key") }),
+            tempApp.handle({
+                req: new Request("http://a.co/key", { headers: { "x-key": "secret" } }),
+            }),
+        ])
+        // the failed resolution of the first request is not shared with the second
+        expect(res3.status).toBe(422)
+        expect(res4.status).toBe(200)
+        expect(await res4.json()).toEqual({ key: "secret" })
+    })
+
+    test("[method] handle: dependency overrides", async () => {
+        const session = new Dependency({
+            parameters: { db: Header(z.string()) },
+            handle: ({ db }) => `session:${db}`,
+        })
+        const user = new Dependency({
+            parameters: { session: Depends(session) },
+            handle: ({ session }) => ({ name: "user", session }),
+        })
+        const fakeSession = new Dependency({
+            handle: () => "session:fake",
+        })
+        const tempApp = new App({})
+        tempApp.get("/", {
+            parameters: { user: Depends(user) },
+            handle: ({ user }) => user,
+        })
+        const openapi = JSON.stringify(tempApp.openapi())
+
+        const res1 = await tempApp.handle({ req: new Request("http://a.co/") })
+        expect(res1.status).toBe(422)
+        tempApp.dependencyOverrides.set(session, fakeSession)
+        const res2 = await tempApp.handle({ req: new Request("http://a.co/") })
+        expect(await res2.json()).toEqual({ name: "user", session: "session:fake" })
+        expect(JSON.stringify(tempApp.openapi())).toBe(openapi)
+        tempApp.dependencyOverrides.clear()
+        const res3 = await tempApp.handle({
+            req: new Request("http://a.co/", { headers: { db: "main" } }),
+        })
+        expect(await res3.json()).toEqual({ name: "user", session: "session:main" })
+    })
+
+    test("[method] handle: dependency teardown", async () => {
+        // jest environments do not expose the `Symbol.asyncDispose` polyfill of node,
+        // it is defined for this test only and the original property restored afterwards
+        const asyncDispose = Object.getOwnPropertyDescriptor(Symbol, "asyncDispose")
+        if (!asyncDispose)
+            Object.defineProperty(Symbol, "asyncDispose", {
+                value: Symbol.for("nodejs.asyncDispose"),
+                configurable: true,
+            })
+        try {
+            const events: string[] = []
+            const session = new Dependency({
+                handle: async function* () {
+                    events.push("session open")
+                    yield { query: () => "result" }
+                    events.push("session close")
+                },
+            })
+            const lock = new Dependency({
+                parameters: { session: Depends(session) },
+                handle: () => ({
+                    name: "lock",
+                    [Symbol.asyncDispose]: async () => {
+                        events.push("lock release")
+                        throw new Error("release failed")
+                    },
+                }),
+            })
+            const onError = jest.fn()
+            const tempApp = new App({ hooks: { onError: [onError] } })
+            tempApp.get("/", {
+                parameters: { lock: Depends(lock) },
+                handle: ({ session, lock }) => {
+                    // Type checks
+                    const _0: string = session.query()
+                    const _1: string = lock.name
+                    events.push("handle")
+                    return { result: session.query() }
+                },
+            })
+            const consoleError = jest.spyOn(console, "error").mockImplementation(() => {})
+
+            const res1 = await tempApp.handle({ req: new Request("http://a.co/") })
+            expect(await res1.json()).toEqual({ result: "result" })
+            expect(events).toEqual(["session open", "handle", "lock release", "session close"])
+            expect(onError).toHaveBeenCalledWith(expect.anything(), expect.any(Error), res1)
+
+            events.length = 0
+            const waitUntil = jest.fn()
+            const res2 = await tempApp.handle({
+                req: new Request("http://a.co/"),
+                ctx: { waitUntil },
+            } as any)
+            expect(res2.status).toBe(200)
+            expect(waitUntil).toHaveBeenCalledTimes(1)
+            await waitUntil.mock.calls[0][0]
+            expect(events).toEqual(["session open", "handle", "lock release", "session close"])
+            consoleError.mockRestore()
+        } finally {
+            if (!asyncDispose) Reflect.deleteProperty(Symbol, "asyncDispose")
+        }
+    })
+
+    test("[method] handle: dependency teardown app scope", async () => {
+        const events: string[] = []
+        const client = new Dependency({
+            scope: "app",
+            handle: async function* () {
+                events.push("client open")
+                yield "client"
+                events.push("client close")
+            },
+        })
+        const tempApp = new App({})
+        tempApp.get("/", {
+            parameters: { client: Depends(client) },
+            handle: ({ client }) => ({ client }),
+        })
+
+        await tempApp.handle({ req: new Request("http://a.co/") })
+        await tempApp.handle({ req: new Request("http://a.co/") })
+        expect(events).toEqual(["client open"])
+        await tempApp.startup()
+        await tempApp.shutdown()
+        expect(events).toEqual(["client open", "client close"])
+    })
+
+    test("[method] handle: side-effect dependencies", async () => {
+        const events: string[] = []
+        const audit = new Dependency({
+            parameters: { X_Request_Id: Header(z.string()) },
+            handle: ({ X_Request_Id }) => void events.push(`audit ${X_Request_Id}`),
+        })
+        const requireAdmin = new Dependency({
+            parameters: { role: Query(z.string()) },
+            handle: ({ role }) => {
+                events.push("admin")
+                if (role != "admin") throw new HTTPException(403)
+            },
+        })
+        const rateLimit = new Dependency({
+            handle: () => void events.push("rate limit"),
+        })
+        const tempApp = new App({ dependencies: [audit] })
+        const tempAppSub = new Router({
+            base: Base<typeof tempApp>(),
+            dependencies: [requireAdmin],
+        })
+        tempAppSub.get("/items", {
+            dependencies: [rateLimit],
+            handle: (args) => {
+                events.push("handle")
+                return Object.keys(args)
+            },
+        })
+        tempApp.include("/admin", tempAppSub)
+
+        const res1 = await tempApp.handle({
+            req: new Request("http://a.co/admin/items?role=admin", {
+                headers: { "X-Request-Id": "1" },
+            }),
+        })
+        expect(await res1.json()).toEqual(["req"])
+        expect(events.slice(0, 3).sort()).toEqual(["admin", "audit 1", "rate limit"])
+        expect(events[3]).toBe("handle")
+        const res2 = await tempApp.handle({
+            req: new Request("http://a.co/admin/items?role=user", {
+                headers: { "X-Request-Id": "2" },
+            }),
+        })
+        expect(res2.status).toBe(403)
+        const res3 = await tempApp.handle({ req: new Request("http://a.co/admin/items") })
+        expect(res3.status).toBe(422)
+        expect((await res3.json()).detail.map((e: any) => e.name)).toEqual(["X_Request_Id", "role"])
+        const operation = tempApp.openapi().paths!["/admin/items"].get!
+        expect(operation.parameters?.map((p: any) => p.name)).toEqual(["role", "X-Request-Id"])
+    })
+
+    test("[method] handle: strict parameters", async () => {
+        const auth = new Dependency({
+            parameters: { X_Token: Header(z.string().optional()) },
+            handle: ({ X_Token }) => X_Token,
+        })
+        const router = new Router({ base: {} })
+        router.get("/items", {
+            parameters: {
+                limit: Query(z.number().optional()),
+                filter: Query(z.object({ status: z.string() }).optional(), {
+                    style: "deepObject",
+                }),
+                token: Depends(auth),
+            },
+            handle: ({ limit }) => ({ limit }),
+        })
+        router.post("/items", {
+            parameters: { item: Body(z.object({ name: z.string() })) },
+            handle: ({ item }) => item,
+        })
+        router.post("/loose", {
+            strictParameters: false,
+            parameters: { item: Body(z.object({ name: z.string() })) },
+            handle: ({ item }) => item,
+        })
+        const tempApp = new App({ strictParameters: { headers: true } })
+        tempApp.include("/", router)
+        const post = (path: string, body: unknown) =>
+            tempApp.handle({
+                req: new Request(`http://a.co${path}`, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(body),
+                }),
+            })
+
+        const res1 = await tempApp.handle({
+            req: new Request("http://a.co/items?limit=1&filter[status]=open", {
+                headers: { "X-Token": "t", Accept: "application/json", "Sec-Fetch-Mode": "cors" },
+            }),
+        })
+        expect(await res1.json()).toEqual({ limit: 1 })
+        const res2 = await tempApp.handle({
+            req: new Request("http://a.co/items?limt=10", {
+                headers: { Cookie: "theme=dark", "X-Tokn": "t" },
+            }),
+        })
+        expect(res2.status).toBe(422)
+        expect((await res2.json()).detail).toMatchObject([
+            {
+                location: "query",
+                name: "limt",
+                issues: [
+                    { code: "unrecognized_keys", message: 'Unrecognized query parameter "limt".' },
+                ],
+            },
+            { location: "cookie", name: "theme" },
+            { location: "header", name: "x-tokn" },
+        ])
+        const res3 = await post("/items", { name: "a", nmae: "b" })
+        expect(res3.status).toBe(422)
+        expect((await res3.json()).detail[0].issues[0]).toMatchObject({
+            code: "unrecognized_keys",
+            keys: ["nmae"],
+        })
+        const res4 = await post("/loose", { name: "a", nmae: "b" })
+        expect(await res4.json()).toEqual({ name: "a" })
+
+        // documentation routes accept the cookies and queries sent by browsers
+        for (const path of ["/openapi.json?v=1", "/docs", "/redoc"]) {
+            const res = await tempApp.handle({
+                req: new Request(`http://a.co${path}`, { headers: { Cookie: "theme=dark" } }),
+            })
+            expect(res.status).toBe(200)
+        }
+    })
+
+    test("[method] validate: problems", async () => {
+        const tempApp = new App({ debug: true })
+        // path mismatches are type errors unless types are bypassed
+        tempApp.get("/items" as any, {
+            parameters: { itemId: Path(z.number()) },
+            handle: ({ itemId }) => itemId,
+        })
+        expect(() => tempApp.validate()).toThrow(AppValidationError)
+        expect(() => tempApp.validate()).toThrow(
+            'GET /items: Path parameter "itemId" does not appear in the route path.'
+        )
+        await expect(tempApp.startup()).rejects.toThrow(AppValidationError)
+        const res = await tempApp.fetch(new Request("http://a.co/items")).catch((e) => e)
+        expect(res).toBeInstanceOf(AppValidationError)
+
+        const tempApp2 = new App({ debug: true })
+        tempApp2.get("/items/{itemId}", {
+            parameters: { itemId: Path(z.number()) },
+            handle: ({ itemId }) => itemId,
+        })
+        expect(() => tempApp2.validate()).not.toThrow()
+        await expect(tempApp2.startup()).resolves.toBeUndefined()
+    })
+
     test("[method] fetch: req + 2 args", async () => {
         const res1 = await app.fetch(
             new Request("http://a.co/fetch-runtime-args", { method: "GET" }),
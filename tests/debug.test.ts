@@ -0,0 +1,74 @@
+import {
+    createDebugHTML,
+    createDebugReport,
+    createDebugResponse,
+    escapeHTML,
+    prefersJSON,
+} from "../src/debug"
+
+const sampleInfo = () => ({
+    error: new TypeError("Cannot read <properties>"),
+    req: new Request("http://a.co/items/1", { headers: { "X-Trace": "abc" } }),
+    route: { method: "GET", path: "/items/{itemId}" },
+    args: { itemId: 1, filter: undefined },
+})
+
+describe("function escapeHTML", () => {
+    test("[invocation]: return value", () => {
+        expect(escapeHTML(`<a href="x">'&'</a>`)).toBe(
+            "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;"
+        )
+    })
+})
+
+describe("function prefersJSON", () => {
+    test("[invocation]: return value", () => {
+        expect(prefersJSON(undefined)).toBe(false)
+        expect(prefersJSON("*/*")).toBe(false)
+        expect(prefersJSON("application/json")).toBe(true)
+        expect(prefersJSON("application/problem+json")).toBe(true)
+        expect(prefersJSON("text/html,application/xhtml+xml,*/*;q=0.8")).toBe(false)
+        expect(prefersJSON("text/html;q=0.5, application/json")).toBe(true)
+        expect(prefersJSON("text/html, application/json")).toBe(false)
+    })
+})
+
+describe("function createDebugReport", () => {
+    test("[invocation]: return value", () => {
+        const report = createDebugReport(sampleInfo())
+        expect(report.error.name).toBe("TypeError")
+        expect(report.error.message).toBe("Cannot read <properties>")
+        expect(report.error.stack.length).toBeGreaterThan(0)
+        expect(report.request).toEqual({
+            method: "GET",
+            url: "http://a.co/items/1",
+            headers: { "x-trace": "abc" },
+        })
+        expect(report.route).toEqual({ method: "GET", path: "/items/{itemId}" })
+        expect(report.parameters).toEqual({ itemId: 1, filter: null })
+    })
+})
+
+describe("function createDebugHTML", () => {
+    test("[invocation]: return value", () => {
+        const html = createDebugHTML(sampleInfo())
+        expect(html).toContain("TypeError: Cannot read &lt;properties&gt;")
+        expect(html).toContain("/items/{itemId}")
+        expect(html).toContain("x-trace")
+        expect(html).not.toContain("<properties>")
+    })
+})
+
+describe("function createDebugResponse", () => {
+    test("[invocation]: return value", async () => {
+        const res1 = createDebugResponse(sampleInfo())
+        expect(res1.status).toBe(500)
+        expect(res1.headers.get("Content-Type")).toBe("text/html;charset=utf-8")
+        const res2 = createDebugResponse({
+            ...sampleInfo(),
+            req: new Request("http://a.co/", { headers: { Accept: "application/json" } }),
+        })
+        expect(res2.status).toBe(500)
+        expect((await res2.json()).error.name).toBe("TypeError")
+    })
+})
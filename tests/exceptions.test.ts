@@ -0,0 +1,63 @@
+import { AppValidationError, HTTPException, findExceptionHandler } from "../src/exceptions"
+import { ErrorClass, ExceptionHandler } from "../src/types"
+
+class DomainError extends Error {}
+class NotFoundError extends DomainError {}
+
+const nullHandler: ExceptionHandler = () => new Response(null)
+
+describe("class HTTPException", () => {
+    test("[constructor]: mutation", () => {
+        const exception = new HTTPException(404)
+        expect(exception).toBeInstanceOf(Error)
+        expect(exception.status).toBe(404)
+        expect(exception.detail).toBe("Not Found")
+        expect(exception.message).toBe("Not Found")
+        expect(exception.headers).toBeUndefined()
+    })
+
+    test("[constructor]: mutation detail and headers", () => {
+        const exception = new HTTPException(401, {
+            detail: { reason: "expired" },
+            headers: { "WWW-Authenticate": "Bearer" },
+        })
+        expect(exception.status).toBe(401)
+        expect(exception.detail).toEqual({ reason: "expired" })
+        expect(exception.message).toBe('{"reason":"expired"}')
+        expect(exception.headers).toEqual({ "WWW-Authenticate": "Bearer" })
+    })
+})
+
+describe("class AppValidationError", () => {
+    test("[constructor]: mutation", () => {
+        const error = new AppValidationError(["problem 1", "problem 2"])
+        expect(error.name).toBe("AppValidationError")
+        expect(error.problems).toStrictEqual(["problem 1", "problem 2"])
+        expect(error.message).toBe("Found 2 problem(s) in app routes:\n- problem 1\n- problem 2")
+    })
+})
+
+describe("function findExceptionHandler", () => {
+    test("[invocation]: return value status code", () => {
+        const handler404: ExceptionHandler = () => new Response(null)
+        const handlers = new Map<ErrorClass | number, ExceptionHandler>([
+            [404, handler404],
+            [HTTPException, nullHandler],
+        ])
+        expect(findExceptionHandler(handlers, new HTTPException(404))).toBe(handler404)
+        expect(findExceptionHandler(handlers, new HTTPException(403))).toBe(nullHandler)
+    })
+
+    test("[invocation]: return value error class", () => {
+        const domainHandler: ExceptionHandler = () => new Response(null)
+        const handlers = new Map<ErrorClass | number, ExceptionHandler>([
+            [DomainError, domainHandler],
+            [NotFoundError, nullHandler],
+        ])
+        expect(findExceptionHandler(handlers, new NotFoundError())).toBe(nullHandler)
+        expect(findExceptionHandler(handlers, new DomainError())).toBe(domainHandler)
+        expect(findExceptionHandler(handlers, new Error())).toBeUndefined()
+        expect(findExceptionHandler(handlers, "string error")).toBeUndefined()
+        expect(findExceptionHandler(handlers, null)).toBeUndefined()
+    })
+})
@@ -2,6 +2,8 @@ import {
     createObjectPartial,
     createResolveLater,
     fixPathSlashes,
+    parseDeepObjectQuery,
+    runTeardowns,
     searchParamsToQueries,
 } from "../src/helpers"
 
@@ -54,6 +56,28 @@ describe("function fixPathSlashes", () => {
     })
 })
 
+describe("function parseDeepObjectQuery", () => {
+    test("[invocation]: return value", () => {
+        const queries = searchParamsToQueries(
+            new URL(
+                "https://a.co/?filter[status]=open&filter[owner][id]=3&filter[tags][]=a&filter[tags][]=b" +
+                    "&ids[]=1&ids[]=2&other=x&filter[__proto__][x]=1"
+            ).searchParams
+        )
+        expect(parseDeepObjectQuery(queries, "filter")).toStrictEqual({
+            status: "open",
+            owner: { id: "3" },
+            tags: ["a", "b"],
+        })
+        expect(parseDeepObjectQuery(queries, "ids")).toStrictEqual(["1", "2"])
+        expect(parseDeepObjectQuery(queries, "other")).toBeUndefined()
+        expect(parseDeepObjectQuery({ "a[0]": ["x"], "a[1]": ["y"] }, "a")).toStrictEqual([
+            "x",
+            "y",
+        ])
+    })
+})
+
 describe("function searchParamsToQueries", () => {
     test("[invocation]: return value", () => {
         const searchParams = new URL(
@@ -66,3 +90,20 @@ describe("function searchParamsToQueries", () => {
         })
     })
 })
+
+describe("function runTeardowns", () => {
+    test("[invocation]: order and return value", async () => {
+        const calls: number[] = []
+        const error = new Error("teardown failed")
+        const errors = await runTeardowns([
+            async () => void calls.push(1),
+            async () => {
+                calls.push(2)
+                throw error
+            },
+            async () => void calls.push(3),
+        ])
+        expect(calls).toStrictEqual([3, 2, 1])
+        expect(errors).toStrictEqual([error])
+    })
+})
@@ -0,0 +1,117 @@
+import { z } from "zod"
+import { App, Base, Dependency, Depends, Header, Middleware, Query, Router } from "../src"
+import { toDOT, toMermaid } from "../src/introspection"
+
+describe("function introspectRoute", () => {
+    const auth = new Dependency({
+        name: "auth",
+        parameters: { authorization: Header(z.string()) },
+        handle: () => "user",
+    })
+    const db = new Dependency({
+        name: "db",
+        scope: "app",
+        handle: () => "db",
+    })
+    const user = new Dependency({
+        name: "user",
+        parameters: { auth: Depends(auth), db: Depends(db) },
+        handle: () => "user",
+    })
+    const audit = new Dependency({
+        name: "audit",
+        handle: () => {},
+    })
+    const app = new App({
+        openapiUrl: null,
+        middleware: [new Middleware({ name: "app", handle: (_, next) => next() })],
+    })
+    const router = new Router({
+        base: Base<typeof app>(),
+        dependencies: [audit],
+        middleware: [new Middleware({ name: "router", handle: (_, next) => next() })],
+    })
+    router.get("/{itemId}", {
+        name: "getItem",
+        tags: ["items"],
+        middleware: [new Middleware({ handle: (_, next) => next() })],
+        parameters: { user: Depends(user), q: Query(z.string()) },
+        handle: () => null,
+    })
+    app.include("/items", router)
+    app.get("/health", { handle: () => null })
+
+    test("[invocation]: return value", () => {
+        const routes = app.introspect()
+        expect(routes.length).toBe(2)
+        expect(routes[0]).toMatchObject({
+            method: "GET",
+            path: "/items/{itemId}",
+            name: "getItem",
+            tags: ["items"],
+            middleware: ["app", "router", "anonymous"],
+            parameters: [{ name: "q", location: "query" }],
+            dependencies: [
+                {
+                    name: "user",
+                    scope: "request",
+                    parameters: [],
+                    dependencies: [
+                        {
+                            name: "auth",
+                            parameters: [{ name: "authorization", location: "header" }],
+                            dependencies: [],
+                        },
+                        { name: "db", scope: "app", parameters: [], dependencies: [] },
+                    ],
+                },
+            ],
+            sideEffectDependencies: [{ name: "audit", dependency: audit }],
+        })
+        expect(routes[1]).toMatchObject({
+            method: "GET",
+            path: "/health",
+            middleware: ["app"],
+            dependencies: [],
+            sideEffectDependencies: [],
+        })
+    })
+
+    test("[invocation]: toMermaid return value", () => {
+        expect(toMermaid(app.introspect())).toBe(
+            [
+                "flowchart LR",
+                '    r0["GET /items/{itemId}"]',
+                '    d0(["audit"])',
+                '    d1(["user"])',
+                '    d2(["auth"])',
+                '    d3(["db (app)"])',
+                '    r1["GET /health"]',
+                "    r0 -.-> d0",
+                "    d1 --> d2",
+                "    d1 --> d3",
+                "    r0 --> d1",
+            ].join("\n")
+        )
+    })
+
+    test("[invocation]: toDOT return value", () => {
+        expect(toDOT(app.introspect())).toBe(
+            [
+                "digraph dependencies {",
+                "    rankdir=LR",
+                '    r0 [label="GET /items/{itemId}", shape=box]',
+                '    d0 [label="audit", shape=ellipse]',
+                '    d1 [label="user", shape=ellipse]',
+                '    d2 [label="auth", shape=ellipse]',
+                '    d3 [label="db (app)", shape=ellipse]',
+                '    r1 [label="GET /health", shape=box]',
+                "    r0 -> d0 [style=dashed]",
+                "    d1 -> d2",
+                "    d1 -> d3",
+                "    r0 -> d1",
+                "}",
+            ].join("\n")
+        )
+    })
+})
@@ -3,9 +3,14 @@ import {
     Dependency,
     Body,
     Cookie,
+    Cookies,
     Depends,
+    File,
+    Form,
     Header,
+    Headers,
     Path,
+    Queries,
     Query,
     jsonCoerce,
     Responds,
@@ -13,6 +18,7 @@ import {
     resolveArgs,
     parseCookie,
 } from "../src"
+import { encodeCBOR, encodeMsgPack } from "../src/codecs"
 import { createResolveLater } from "../src/helpers"
 
 const nullLater = () =>
@@ -22,7 +28,7 @@ const nullLater = () =>
             const routeParam = Path(schema)
             expect(routeParam.location).toBe("path")
             expect(routeParam.schema).toBe(schema)
-            expect(routeParam.options.preprocessor).toBe(jsonCoerce)
+            expect(routeParam.options.preprocessor).toBeUndefined()
         })
     })
 
@@ -89,7 +95,7 @@ describe("function Query", () => {
         const routeParam = Query(schema)
         expect(routeParam.location).toBe("query")
         expect(routeParam.schema).toBe(schema)
-        expect(routeParam.options.preprocessor).toBe(jsonCoerce)
+        expect(routeParam.options.preprocessor).toBeUndefined()
     })
 })
 
@@ -111,6 +117,18 @@ describe("function Cookie", () => {
     })
 })
 
+describe("function Queries", () => {
+    test("[invocation]: return value", () => {
+        const schema = z.object({ page: z.number() })
+        const routeParam = Queries(schema)
+        expect(routeParam.location).toBe("query")
+        expect(routeParam.schema).toBe(schema)
+        expect(routeParam.options.group).toBe(true)
+        expect(Headers(schema).location).toBe("header")
+        expect(Cookies(schema).location).toBe("cookie")
+    })
+})
+
 describe("function Body", () => {
     test("[invocation]: return value", () => {
         const schema = z.object({
@@ -121,6 +139,37 @@ describe("function Body", () => {
         expect(routeParam.location).toBe("body")
         expect(routeParam.schema).toBe(schema)
     })
+
+    test("[invocation]: return value media types", () => {
+        const decoder = async (req: Request) => new Uint8Array(await req.arrayBuffer())
+        const routeParam = Body(z.any(), {
+            mediaTypes: ["application/x-www-form-urlencoded", "application/octet-stream"],
+            decoders: { "application/octet-stream": decoder },
+        })
+        expect(routeParam.options.mediaType).toBe("application/x-www-form-urlencoded")
+        expect(() => Body(z.any(), { mediaTypes: ["application/xml"] })).toThrow(
+            'No decoder for body media type "application/xml".'
+        )
+    })
+})
+
+describe("function Form", () => {
+    test("[invocation]: return value", () => {
+        const schema = z.object({ name: z.string() })
+        const routeParam = Form(schema)
+        expect(routeParam.location).toBe("form")
+        expect(routeParam.schema).toBe(schema)
+        expect(routeParam.options.mediaType).toBe("application/x-www-form-urlencoded")
+    })
+})
+
+describe("function File", () => {
+    test("[invocation]: return value", () => {
+        const routeParam = File({ maxSize: 10, mediaTypes: ["image/png"] })
+        expect(routeParam.location).toBe("file")
+        expect(routeParam.schema).toBeInstanceOf(z.ZodFile)
+        expect(routeParam.options).toStrictEqual({ maxSize: 10, mediaTypes: ["image/png"] })
+    })
 })
 
 describe("function Depends", () => {
@@ -170,7 +219,7 @@ describe("function resolveArgs", () => {
                 baseArgs: {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
-                        headers: { "P-Header": "htext" },
+                        headers: { "P-Header": "htext", "Content-Type": "application/json" },
                         body: JSON.stringify({ key: "mykey", value: 12 }),
                     }),
                 },
@@ -204,6 +253,137 @@ describe("function resolveArgs", () => {
         expect(parseInfo1.success).toBe(true)
     })
 
+    test("[invocation]: return value success query deep object", async () => {
+        const parseInfo1 = await resolveArgs(
+            {
+                filter: Query(
+                    z.object({
+                        status: z.enum(["open", "closed"]),
+                        owner: z.object({ id: z.number() }).optional(),
+                        flags: z.boolean().array().optional(),
+                    }),
+                    { style: "deepObject" }
+                ),
+                ids: Query(z.number().array(), { style: "deepObject" }),
+                missing: Query(z.object({ a: z.string() }).optional(), { style: "deepObject" }),
+            },
+            {
+                baseArgs: { req: new Request("http://a.co/notimportant") },
+                later: nullLater,
+                rawParameters: {
+                    queries: {
+                        "filter[status]": ["open"],
+                        "filter[owner][id]": ["3"],
+                        "filter[flags][]": ["true", "false"],
+                        "ids[]": ["1", "2"],
+                    },
+                },
+            }
+        )
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args).toStrictEqual({
+            filter: { status: "open", owner: { id: 3 }, flags: [true, false] },
+            ids: [1, 2],
+            missing: undefined,
+        })
+    })
+
+    test("[invocation]: return value success query collection formats", async () => {
+        const parseInfo1 = await resolveArgs(
+            {
+                csv: Query(z.number().array(), { explode: false }),
+                ssv: Query(z.string().array(), { style: "spaceDelimited" }),
+                psv: Query(z.boolean().array(), { style: "pipeDelimited" }),
+                multi: Query(z.number().array(), { style: "form" }),
+                accepted: Header(z.string().array()),
+                X_Ids: Header(z.number().array().optional()),
+            },
+            {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        headers: { accepted: "a, b,,c", "X-Ids": "1,2" },
+                    }),
+                },
+                later: nullLater,
+                rawParameters: {
+                    queries: {
+                        csv: ["1,2", "3"],
+                        ssv: ["a b"],
+                        psv: ["true|false"],
+                        multi: ["1", "2"],
+                    },
+                },
+            }
+        )
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args).toStrictEqual({
+            csv: [1, 2, 3],
+            ssv: ["a", "b"],
+            psv: [true, false],
+            multi: [1, 2],
+            accepted: ["a", "b", "c"],
+            X_Ids: [1, 2],
+        })
+    })
+
+    test("[invocation]: return value success grouped", async () => {
+        const parseInfo1 = await resolveArgs(
+            {
+                filters: Queries(
+                    z.object({
+                        status: z.enum(["open", "closed"]),
+                        page: z.number().default(1),
+                        ids: z.number().array().optional(),
+                    })
+                ),
+                meta: Headers(z.object({ x_request_id: z.string(), x_retry: z.boolean() })),
+                prefs: Cookies(z.object({ theme: z.string() })),
+            },
+            {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        headers: { "X-Request-Id": "rid", "X-Retry": "true" },
+                    }),
+                },
+                later: nullLater,
+                rawParameters: {
+                    queries: { status: ["open"], ids: ["1", "2"], other: ["x"] },
+                    cookies: { theme: "dark" },
+                },
+            }
+        )
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args).toStrictEqual({
+            filters: { status: "open", page: 1, ids: [1, 2] },
+            meta: { x_request_id: "rid", x_retry: true },
+            prefs: { theme: "dark" },
+        })
+    })
+
+    test("[invocation]: return value fail grouped", async () => {
+        const parseInfo1 = await resolveArgs(
+            {
+                filters: Queries(
+                    z
+                        .object({ min: z.number(), max: z.number(), q: z.string() })
+                        .refine((v) => v.min <= v.max, "min must not exceed max")
+                ),
+            },
+            {
+                baseArgs: { req: new Request("http://a.co/notimportant") },
+                later: nullLater,
+                rawParameters: { queries: { min: ["x"], max: ["1"] } },
+            }
+        )
+        expect(parseInfo1.success).toBe(false)
+        expect(
+            parseInfo1.errors.map((e) => [e.location, e.name, e.issues.map((i) => i.path)])
+        ).toStrictEqual([
+            ["query", "min", [[]]],
+            ["query", "q", [[]]],
+        ])
+    })
+
     test("[invocation]: return value success body json", async () => {
         const parseInfo1 = await resolveArgs(
             {
@@ -213,6 +393,7 @@ describe("function resolveArgs", () => {
                 baseArgs: {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
+                        headers: { "Content-Type": "application/json" },
                         body: JSON.stringify({ key: "mykey", value: 12 }),
                     }),
                 },
@@ -226,6 +407,112 @@ describe("function resolveArgs", () => {
         expect(parseInfo1.success).toBe(true)
     })
 
+    test("[invocation]: return value success body json embedded", async () => {
+        const dependency1 = new Dependency({
+            parameters: { user: Body(z.object({ id: z.number() }), { embed: true }) },
+            handle: ({ user }) => user.id,
+        })
+        const parseInfo1 = await resolveArgs(
+            {
+                item: Body(z.object({ name: z.string() }), { embed: true }),
+                note: Body(z.string().optional(), { embed: true }),
+                pDepend: Depends(dependency1),
+            },
+            {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ item: { name: "a" }, user: { id: 1 } }),
+                    }),
+                },
+                later: nullLater,
+            }
+        )
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args).toStrictEqual({
+            item: { name: "a" },
+            note: undefined,
+            pDepend: 1,
+            user: { id: 1 },
+        })
+    })
+
+    test("[invocation]: return value success body media types", async () => {
+        const parameters = {
+            pBody: Body(z.object({ key: z.string(), value: z.number() }), {
+                mediaTypes: ["application/json", "application/x-www-form-urlencoded", "text/csv"],
+                decoders: {
+                    "text/csv": async (req) => {
+                        const [key, value] = (await req.text()).split(",")
+                        return { key, value: Number(value) }
+                    },
+                },
+            }),
+        }
+        for (const [contentType, body] of [
+            ["application/json; charset=utf-8", JSON.stringify({ key: "mykey", value: 12 })],
+            ["application/x-www-form-urlencoded", "key=mykey&value=12"],
+            ["text/csv", "mykey,12"],
+        ]) {
+            const parseInfo1 = await resolveArgs(parameters, {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        method: "POST",
+                        headers: { "Content-Type": contentType },
+                        body: body,
+                    }),
+                },
+                later: nullLater,
+            })
+            expect(parseInfo1.errors).toStrictEqual([])
+            expect(parseInfo1.args).toStrictEqual({ pBody: { key: "mykey", value: 12 } })
+        }
+    })
+
+    test("[invocation]: return value success body msgpack and cbor", async () => {
+        const parameters = {
+            pBody: Body(z.object({ key: z.string(), at: z.date() }), {
+                mediaTypes: ["application/msgpack", "application/cbor"],
+            }),
+        }
+        const value = { key: "mykey", at: new Date(1000) }
+        for (const [contentType, body] of [
+            ["application/msgpack", encodeMsgPack(value)],
+            ["application/cbor", encodeCBOR(value)],
+        ] as const) {
+            const parseInfo1 = await resolveArgs(parameters, {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        method: "POST",
+                        headers: { "Content-Type": contentType },
+                        body: body as BodyInit,
+                    }),
+                },
+                later: nullLater,
+            })
+            expect(parseInfo1.errors).toStrictEqual([])
+            expect(parseInfo1.args).toEqual({ pBody: value })
+        }
+    })
+
+    test("[invocation]: return value fail body unsupported media type", async () => {
+        await expect(
+            resolveArgs(
+                { pBody: Body(z.object({ key: z.string() })) },
+                {
+                    baseArgs: {
+                        req: new Request("http://a.co/notimportant", {
+                            method: "POST",
+                            body: JSON.stringify({ key: "mykey" }),
+                        }),
+                    },
+                    later: nullLater,
+                }
+            )
+        ).rejects.toMatchObject({ status: 415 })
+    })
+
     test("[invocation]: return value success body text", async () => {
         const parseInfo1 = await resolveArgs(
             {
@@ -288,6 +575,79 @@ describe("function resolveArgs", () => {
         expect(parseInfo1.success).toBe(true)
     })
 
+    test("[invocation]: return value success form urlencoded", async () => {
+        const parseInfo1 = await resolveArgs(
+            {
+                pForm: Form(
+                    z.object({
+                        name: z.string(),
+                        count: z.number(),
+                        tags: z.string().array(),
+                        flags: z.boolean().array().optional(),
+                    })
+                ),
+            },
+            {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        method: "POST",
+                        body: new URLSearchParams("name=a&count=2&tags=x&tags=y&flags=true"),
+                    }),
+                },
+                later: nullLater,
+            }
+        )
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args).toStrictEqual({
+            pForm: { name: "a", count: 2, tags: ["x", "y"], flags: [true] },
+        })
+    })
+
+    test("[invocation]: return value success form multipart files", async () => {
+        const createRequest = (avatar: Blob) => {
+            const formData = new FormData()
+            formData.append("name", "a")
+            formData.append("avatar", avatar, "avatar.png")
+            return new Request("http://a.co/notimportant", { method: "POST", body: formData })
+        }
+        const parameters = {
+            pForm: Form(z.object({ name: z.string() })),
+            avatar: File({ maxSize: 4, mediaTypes: ["image/png"] }),
+        }
+        const parseInfo1 = await resolveArgs(parameters, {
+            baseArgs: { req: createRequest(new Blob(["1234"], { type: "image/png" })) },
+            later: nullLater,
+        })
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args.pForm).toStrictEqual({ name: "a" })
+        expect(parseInfo1.args.avatar.size).toBe(4)
+        expect(parseInfo1.args.avatar.name).toBe("avatar.png")
+
+        const parseInfo2 = await resolveArgs(parameters, {
+            baseArgs: { req: createRequest(new Blob(["12345"], { type: "image/jpeg" })) },
+            later: nullLater,
+        })
+        expect(parseInfo2.success).toBe(false)
+        expect(parseInfo2.errors.length).toBe(1)
+        expect(parseInfo2.errors[0].location).toBe("file")
+        expect(parseInfo2.errors[0].issues.map((issue) => issue.code)).toStrictEqual([
+            "too_big",
+            "invalid_value",
+        ])
+
+        const parseInfo3 = await resolveArgs(parameters, {
+            baseArgs: {
+                req: new Request("http://a.co/notimportant", { method: "POST", body: "{}" }),
+            },
+            later: nullLater,
+        })
+        expect(parseInfo3.success).toBe(false)
+        expect(parseInfo3.errors.map((e) => e.issues[0].message)).toStrictEqual([
+            "Invalid form data.",
+            "Invalid form data.",
+        ])
+    })
+
     test("[invocation]: return value success optional", async () => {
         const parseInfo1 = await resolveArgs(
             {
@@ -299,7 +659,7 @@ describe("function resolveArgs", () => {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
                         body: JSON.stringify({ key: "mykey", value: 12 }),
-                        headers: { "P-Header": "htext" },
+                        headers: { "P-Header": "htext", "Content-Type": "application/json" },
                     }),
                 },
                 later: nullLater,
@@ -324,7 +684,7 @@ describe("function resolveArgs", () => {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
                         body: JSON.stringify({ key: "mykey", value: 12 }),
-                        headers: { "P-Header": "htext" },
+                        headers: { "P-Header": "htext", "Content-Type": "application/json" },
                     }),
                 },
                 later: nullLater,
@@ -359,7 +719,7 @@ describe("function resolveArgs", () => {
                 baseArgs: {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
-                        headers: { "P-Header": "htext" },
+                        headers: { "P-Header": "htext", "Content-Type": "application/json" },
                         body: JSON.stringify({ key: "mykey", value: 12 }),
                     }),
                 },
@@ -467,6 +827,135 @@ describe("function resolveArgs", () => {
         expect(flag).toBe(true)
     })
 
+    test("[invocation]: return value success depended concurrent", async () => {
+        const events: string[] = []
+        let resolutions = 0
+        const shared = new Dependency({
+            handle: async () => {
+                await new Promise((r) => setTimeout(r, 10))
+                return ++resolutions
+            },
+        })
+        const createDependency = (name: string, delay: number) =>
+            new Dependency({
+                parameters: { shared: Depends(shared) },
+                handle: async ({ shared }) => {
+                    events.push(`${name} start`)
+                    await new Promise((r) => setTimeout(r, delay))
+                    events.push(`${name} end`)
+                    return `${name}${shared}`
+                },
+            })
+        const parseInfo1 = await resolveArgs(
+            {
+                pDepend1: Depends(createDependency("a", 30)),
+                pDepend2: Depends(createDependency("b", 10)),
+                pBody: Body(z.object({ key: z.string() })),
+            },
+            {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ key: "mykey" }),
+                    }),
+                },
+                later: nullLater,
+            }
+        )
+        expect(events).toStrictEqual(["a start", "b start", "b end", "a end"])
+        expect(resolutions).toBe(1)
+        expect(Object.keys(parseInfo1.args)).toStrictEqual([
+            "pDepend1",
+            "shared",
+            "pDepend2",
+            "pBody",
+        ])
+        expect(parseInfo1.args).toStrictEqual({
+            pDepend1: "a1",
+            pDepend2: "b1",
+            shared: 1,
+            pBody: { key: "mykey" },
+        })
+        expect(parseInfo1.success).toBe(true)
+    })
+
+    test("[invocation]: return value fail depended concurrent order", async () => {
+        const createDependency = (name: string, delay: number) =>
+            new Dependency({
+                parameters: { [name]: Query(z.number()) },
+                handle: async () => await new Promise((r) => setTimeout(r, delay)),
+            })
+        const parseInfo1 = await resolveArgs(
+            {
+                pQuery: Query(z.number()),
+                pDepend1: Depends(createDependency("a", 20)),
+                pDepend2: Depends(createDependency("b", 0)),
+            },
+            {
+                baseArgs: { req: new Request("http://a.co/notimportant") },
+                later: nullLater,
+                rawParameters: { queries: { pQuery: ["x"], a: ["x"], b: ["x"] } },
+            }
+        )
+        expect(parseInfo1.errors.map((e) => e.name)).toStrictEqual(["pQuery", "a", "b"])
+        expect(parseInfo1.success).toBe(false)
+
+        const failing = new Dependency({
+            handle: async () => {
+                await new Promise((r) => setTimeout(r, 10))
+                throw new Error("first")
+            },
+        })
+        const failingFast = new Dependency({
+            handle: async () => {
+                throw new Error("second")
+            },
+        })
+        await expect(
+            resolveArgs(
+                { pDepend1: Depends(failing), pDepend2: Depends(failingFast) },
+                { baseArgs: { req: new Request("http://a.co/notimportant") }, later: nullLater }
+            )
+        ).rejects.toThrow("first")
+    })
+
+    test("[invocation]: return value async validation", async () => {
+        const taken = new Set(["admin"])
+        const username = z.string().refine(async (value) => !taken.has(value), "Username taken.")
+        const parameters = {
+            username: Query(username),
+            filters: Queries(z.object({ page: z.number().transform(async (page) => page - 1) })),
+            body: Body(z.object({ username })),
+        }
+        const input = (name: string) => ({
+            baseArgs: {
+                req: new Request("http://a.co/notimportant", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ username: name }),
+                }),
+            },
+            later: nullLater,
+            rawParameters: { queries: { username: [name], page: ["2"] } },
+        })
+
+        const parseInfo1 = await resolveArgs(parameters, input("someone"))
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args).toStrictEqual({
+            username: "someone",
+            filters: { page: 1 },
+            body: { username: "someone" },
+        })
+
+        const parseInfo2 = await resolveArgs(parameters, input("admin"))
+        expect(parseInfo2.success).toBe(false)
+        expect(parseInfo2.errors).toMatchObject([
+            { location: "query", name: "username", issues: [{ message: "Username taken." }] },
+            { location: "body", name: "body", issues: [{ path: ["username"] }] },
+        ])
+    })
+
     test("[invocation]: return value fail invalid body json", async () => {
         const parseInfo1 = await resolveArgs(
             {
@@ -476,6 +965,7 @@ describe("function resolveArgs", () => {
                 baseArgs: {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
+                        headers: { "Content-Type": "application/json" },
                         body: `{ key: "mykey", value: 12, }`,
                     }),
                 },
@@ -496,6 +986,7 @@ describe("function resolveArgs", () => {
                 baseArgs: {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
+                        headers: { "Content-Type": "application/json" },
                         body: JSON.stringify({ key: "mykey", value: "12" }),
                     }),
                 },
@@ -517,6 +1008,7 @@ describe("function resolveArgs", () => {
                 baseArgs: {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
+                        headers: { "Content-Type": "application/json" },
                         body: JSON.stringify({ key: "mykey", value: "12" }),
                     }),
                 },
@@ -530,6 +1022,76 @@ describe("function resolveArgs", () => {
         expect(parseInfo2.success).toBe(false)
     })
 
+    test("[invocation]: return value success coerced", async () => {
+        const parseInfo1 = await resolveArgs(
+            {
+                since: Path(z.date()),
+                id: Query(z.bigint()),
+                limit: Query(z.union([z.number(), z.literal("all")])),
+                owner: Query(z.number().nullable()),
+                page: Query(z.number().pipe(z.transform((n) => n - 1))),
+                Score: Header(z.number().brand("Score")),
+                level: Cookie(z.lazy(() => z.number().catch(0))),
+            },
+            {
+                baseArgs: {
+                    req: new Request("http://a.co/notimportant", {
+                        headers: { Score: "12.5", Cookie: "level=high" },
+                    }),
+                },
+                later: nullLater,
+                rawParameters: {
+                    params: { since: "2024-01-02T00:00:00Z" },
+                    queries: {
+                        id: ["9007199254740993"],
+                        limit: ["all"],
+                        owner: ["null"],
+                        page: ["2"],
+                    },
+                    cookies: { level: "high" },
+                },
+            }
+        )
+        expect(parseInfo1.errors).toStrictEqual([])
+        expect(parseInfo1.args).toEqual({
+            since: new Date("2024-01-02T00:00:00Z"),
+            id: 9007199254740993n,
+            limit: "all",
+            owner: null,
+            page: 1,
+            Score: 12.5,
+            level: 0,
+        })
+    })
+
+    test("[invocation]: return value fail coerced", async () => {
+        const parseInfo1 = await resolveArgs(
+            {
+                since: Query(z.date()),
+                ids: Query(z.number().array()),
+            },
+            {
+                baseArgs: { req: new Request("http://a.co/notimportant") },
+                later: nullLater,
+                rawParameters: { queries: { since: ["yesterday"], ids: ["1", "two"] } },
+            }
+        )
+        expect(parseInfo1.success).toBe(false)
+        expect(parseInfo1.errors).toMatchObject([
+            {
+                location: "query",
+                name: "since",
+                issues: [{ path: [], message: 'Cannot convert "yesterday" to a date.' }],
+            },
+            {
+                location: "query",
+                name: "ids",
+                issues: [{ path: [1], message: 'Cannot convert "two" to a number.' }],
+            },
+        ])
+        expect(parseInfo1.errors[1].issues.length).toBe(1)
+    })
+
     test("[invocation]: return value fail depends", async () => {
         const dependency1 = new Dependency({
             parameters: {
@@ -549,7 +1111,7 @@ describe("function resolveArgs", () => {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
                         body: JSON.stringify({ key: "mykey", value: 12 }),
-                        headers: { "P-Header": "htext" },
+                        headers: { "P-Header": "htext", "Content-Type": "application/json" },
                     }),
                 },
                 rawParameters: {
@@ -574,7 +1136,7 @@ describe("function resolveArgs", () => {
                     req: new Request("http://a.co/notimportant", {
                         method: "POST",
                         body: JSON.stringify({ key: "mykey", value: 12 }),
-                        headers: { "P-Header": "htext" },
+                        headers: { "P-Header": "htext", "Content-Type": "application/json" },
                     }),
                 },
                 rawParameters: {
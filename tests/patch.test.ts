@@ -0,0 +1,195 @@
+import { z } from "zod"
+import { HTTPException } from "../src"
+import {
+    applyJSONPatch,
+    applyMergePatch,
+    createJSONPatchSchema,
+    createMergePatchSchema,
+    createPatch,
+} from "../src/patch"
+
+const schema = z.object({
+    name: z.string(),
+    tags: z.array(z.string()).default([]),
+    address: z.object({ city: z.string(), zip: z.string().optional() }),
+})
+
+describe("function createMergePatchSchema", () => {
+    test("[invocation]: return value", () => {
+        const patchSchema = createMergePatchSchema(schema)
+        expect(patchSchema.parse({})).toStrictEqual({})
+        expect(patchSchema.parse({ name: null, address: { zip: null } })).toStrictEqual({
+            name: null,
+            address: { zip: null },
+        })
+        expect(patchSchema.safeParse({ name: 1 }).success).toBe(false)
+        expect(patchSchema.safeParse({ address: { city: 1 } }).success).toBe(false)
+    })
+})
+
+describe("function createJSONPatchSchema", () => {
+    test("[invocation]: return value", async () => {
+        const patchSchema = createJSONPatchSchema(schema)
+        const operations = [
+            { op: "replace", path: "/name", value: "b" },
+            { op: "add", path: "/tags/-", value: "x" },
+            { op: "remove", path: "/address/zip" },
+            { op: "copy", from: "/name", path: "/address/city" },
+        ]
+        expect(await patchSchema.parseAsync(operations)).toStrictEqual(operations)
+    })
+
+    test("[invocation]: return value invalid", async () => {
+        const patchSchema = createJSONPatchSchema(schema)
+        const parseOut = await patchSchema.safeParseAsync([
+            { op: "replace", path: "/address/city", value: 1 },
+            { op: "add", path: "/unknown", value: "x" },
+            { op: "remove", path: "name" },
+        ])
+        expect(parseOut.success).toBe(false)
+        expect(parseOut.error!.issues.map((issue) => issue.path)).toStrictEqual([
+            [2, "path"],
+            [0, "value"],
+            [1, "path"],
+        ])
+    })
+
+    test("[invocation]: return value unsafe paths", async () => {
+        const patchSchema = createJSONPatchSchema(schema)
+        const parseOut = await patchSchema.safeParseAsync([
+            { op: "copy", from: "/name", path: "/__proto__/polluted" },
+            { op: "move", from: "/constructor", path: "/name" },
+            { op: "replace", path: "/constructor", value: 1 },
+            { op: "remove", path: "/unknown" },
+        ])
+        expect(parseOut.success).toBe(false)
+        expect(parseOut.error!.issues.map((issue) => issue.path)).toStrictEqual([
+            [0, "path"],
+            [1, "from"],
+            [2, "path"],
+            [3, "path"],
+        ])
+    })
+
+    test("[invocation]: return value async value schema", async () => {
+        const patchSchema = createJSONPatchSchema(
+            z.object({ name: z.string().refine(async (name) => name != "taken", "Name taken.") })
+        )
+        const parseOut = await patchSchema.safeParseAsync([
+            { op: "replace", path: "/name", value: "taken" },
+        ])
+        expect(parseOut.error!.issues).toMatchObject([
+            { path: [0, "value"], message: "Name taken." },
+        ])
+    })
+})
+
+describe("function applyMergePatch", () => {
+    test("[invocation]: return value", () => {
+        const target = { a: "b", c: { d: "e", f: "g" }, h: [1] }
+        expect(
+            applyMergePatch(target, { a: "z", c: { f: null }, h: [2], i: { j: 1 } })
+        ).toStrictEqual({ a: "z", c: { d: "e" }, h: [2], i: { j: 1 } })
+        expect(target).toStrictEqual({ a: "b", c: { d: "e", f: "g" }, h: [1] })
+        expect(applyMergePatch({ a: "b" }, ["c"])).toStrictEqual(["c"])
+        expect(applyMergePatch({ a: "b" }, { a: undefined })).toStrictEqual({ a: "b" })
+    })
+})
+
+describe("function applyJSONPatch", () => {
+    test("[invocation]: return value", () => {
+        const target = { foo: ["bar", "baz"], qux: { "a/b": 1 } }
+        expect(
+            applyJSONPatch(target, [
+                { op: "add", path: "/foo/1", value: "qux" },
+                { op: "remove", path: "/foo/0" },
+                { op: "replace", path: "/qux/a~1b", value: 2 },
+                { op: "copy", from: "/qux", path: "/copied" },
+                { op: "move", from: "/foo/1", path: "/foo/-" },
+                { op: "test", path: "/copied", value: { "a/b": 2 } },
+            ])
+        ).toEqual({ foo: ["qux", "baz"], qux: { "a/b": 2 }, copied: { "a/b": 2 } })
+        expect(target).toStrictEqual({ foo: ["bar", "baz"], qux: { "a/b": 1 } })
+        expect(applyJSONPatch(target, [{ op: "replace", path: "", value: 1 }])).toBe(1)
+    })
+
+    test("[invocation]: throw unsafe path", () => {
+        expect(() =>
+            applyJSONPatch({ name: "a" }, [
+                { op: "copy", from: "/name", path: "/__proto__/polluted" },
+            ])
+        ).toThrow('path "/__proto__/polluted" does not exist.')
+        expect(() =>
+            applyJSONPatch({ name: "a" }, [
+                { op: "add", path: "/constructor/prototype/polluted", value: "a" },
+            ])
+        ).toThrow(expect.objectContaining({ status: 409 }))
+        expect(() => applyJSONPatch({}, [{ op: "add", path: "/toString/x", value: 1 }])).toThrow(
+            'path "/toString/x" does not exist.'
+        )
+        expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+        expect(
+            Object.getPrototypeOf(applyMergePatch({}, JSON.parse('{"__proto__":{"a":1}}')))
+        ).toBe(Object.prototype)
+    })
+
+    test("[invocation]: throw conflict", () => {
+        expect(() => applyJSONPatch({ a: 1 }, [{ op: "remove", path: "/b" }])).toThrow(
+            'Cannot apply JSON Patch operation 0: path "/b" does not exist.'
+        )
+        expect(() => applyJSONPatch({ a: [] }, [{ op: "add", path: "/a/1", value: 1 }])).toThrow(
+            'path "/a/1" does not exist.'
+        )
+        expect(() =>
+            applyJSONPatch({ a: 1 }, [
+                { op: "test", path: "/a", value: 1 },
+                { op: "test", path: "/a", value: 2 },
+            ])
+        ).toThrow('Cannot apply JSON Patch operation 1: test of path "/a" failed.')
+        expect(() => applyJSONPatch({}, [{ op: "remove", path: "/b/c" }])).toThrow(
+            expect.objectContaining({ status: 409 })
+        )
+    })
+})
+
+describe("function createPatch", () => {
+    test("[invocation]: return value", async () => {
+        const patch = createPatch("merge", { name: "b" }, schema, "item")
+        expect(patch.document).toStrictEqual({ name: "b" })
+        expect(await patch.apply({ name: "a", tags: ["x"], address: { city: "c" } })).toStrictEqual(
+            {
+                name: "b",
+                tags: ["x"],
+                address: { city: "c" },
+            }
+        )
+    })
+
+    test("[invocation]: throw invalid result", async () => {
+        const patch = createPatch("json", [{ op: "remove", path: "/name" }], schema, "item")
+        let error: unknown
+        try {
+            await patch.apply({ name: "a", tags: [], address: { city: "c" } })
+        } catch (e) {
+            error = e
+        }
+        expect(error).toBeInstanceOf(HTTPException)
+        expect((error as HTTPException).status).toBe(422)
+        expect((error as HTTPException).errors![0]).toMatchObject({
+            location: "body",
+            name: "item",
+            issues: [{ path: ["name"] }],
+        })
+    })
+
+    test("[invocation]: throw invalid result async schema", async () => {
+        const asyncSchema = z.object({
+            name: z.string().refine(async (name) => name != "taken", "Name taken."),
+        })
+        const patch = createPatch("merge", { name: "taken" }, asyncSchema, "item")
+        await expect(patch.apply({ name: "a" })).rejects.toMatchObject({
+            status: 422,
+            errors: [{ name: "item", issues: [{ message: "Name taken." }] }],
+        })
+    })
+})
@@ -1,4 +1,12 @@
-import { HTMLResponse, JSONResponse, PlainTextResponse } from "../src/responses"
+import { decodeCBOR, decodeMsgPack } from "../src/codecs"
+import {
+    CBORResponse,
+    HTMLResponse,
+    MsgPackResponse,
+    JSONResponse,
+    PlainTextResponse,
+    ProblemJSONResponse,
+} from "../src/responses"
 
 describe("class JSONResponse", () => {
     test("[constructor]: operational equality to Response.json", async () => {
@@ -44,3 +52,34 @@ describe("class PlainTextResponse", () => {
         ])
     })
 })
+
+describe("class ProblemJSONResponse", () => {
+    test("[constructor]: body and headers mutation", async () => {
+        const testData = { type: "about:blank", title: "Not Found", status: 404 }
+        expect(new ProblemJSONResponse(testData) instanceof Response).toBe(true)
+        expect(await new ProblemJSONResponse(testData).json()).toEqual(testData)
+        expect([...new ProblemJSONResponse(testData).headers.entries()]).toStrictEqual([
+            ["content-type", "application/problem+json"],
+        ])
+    })
+})
+
+describe("class MsgPackResponse", () => {
+    test("[constructor]: body and headers mutation", async () => {
+        const testData = { data: [1, 2] }
+        const res = new MsgPackResponse(testData)
+        expect(res instanceof Response).toBe(true)
+        expect(decodeMsgPack(new Uint8Array(await res.arrayBuffer()))).toEqual(testData)
+        expect([...res.headers.entries()]).toStrictEqual([["content-type", "application/msgpack"]])
+    })
+})
+
+describe("class CBORResponse", () => {
+    test("[constructor]: body and headers mutation", async () => {
+        const testData = { data: [1, 2] }
+        const res = new CBORResponse(testData)
+        expect(res instanceof Response).toBe(true)
+        expect(decodeCBOR(new Uint8Array(await res.arrayBuffer()))).toEqual(testData)
+        expect([...res.headers.entries()]).toStrictEqual([["content-type", "application/cbor"]])
+    })
+})
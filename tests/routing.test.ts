@@ -1,6 +1,18 @@
 import { z } from "zod"
-import { Body, Depends, Header, Path, Query, Dependency } from "../src"
-import { Route, RouteNode, RouteMatcher, generateRouteSummary } from "../src/routing"
+import {
+    Body,
+    Cookies,
+    Depends,
+    File,
+    Form,
+    Header,
+    Headers,
+    Path,
+    Queries,
+    Query,
+    Dependency,
+} from "../src"
+import { Route, RouteNode, RouteMatcher, generateRouteSummary, validateRoute } from "../src/routing"
 
 const nullHandler = async () => null
 
@@ -20,6 +32,107 @@ describe("function generateRouteSummary", () => {
     })
 })
 
+describe("function validateRoute", () => {
+    test("[invocation]: return value valid", () => {
+        const shared = new Dependency({
+            parameters: { body: Body(z.object({})), token: Header(z.string()) },
+            handle: nullHandler,
+        })
+        const route = new Route({
+            method: "POST",
+            path: "/items/{itemId}",
+            dependencies: [shared],
+            parameters: {
+                itemId: Path(z.number()),
+                dep: Depends(shared),
+            },
+            handle: nullHandler,
+        })
+        expect(validateRoute(route)).toStrictEqual([])
+    })
+
+    test("[invocation]: return value problems form", () => {
+        const route = new Route({
+            method: "POST",
+            path: "/items",
+            parameters: {
+                body: Body(z.object({})),
+                form1: Form(z.object({})),
+                form2: Form(z.object({})),
+                file: File(),
+            },
+            handle: nullHandler,
+        })
+        expect(validateRoute(route)).toStrictEqual([
+            'POST /items: Multiple Form parameters "form1", "form2", only one is allowed per route.',
+            'POST /items: Body parameters cannot be combined with Form or File parameters "form1", "form2", "file".',
+        ])
+    })
+
+    test("[invocation]: return value problems", () => {
+        const dep1 = new Dependency({
+            name: "dep1",
+            parameters: {
+                itemId: Path(z.number()),
+                body1: Body(z.object({})),
+                page: Query(z.number(), { altName: "p" }),
+            },
+            handle: nullHandler,
+        })
+        const dep2 = new Dependency({
+            name: "dep2",
+            parameters: { dep1: Depends(dep1) },
+            handle: nullHandler,
+        })
+        ;(dep1.parameters as any).dep2 = Depends(dep2)
+        const route = new Route({
+            method: "POST",
+            path: "/items",
+            parameters: {
+                dep1: Depends(dep1),
+                body2: Body(z.object({})),
+                p: Query(z.number()),
+                x_token: Header(z.string()),
+                token: Header(z.string(), { altName: "X-Token" }),
+                filters: Queries(z.object({ p: z.number(), q: z.string() })),
+            },
+            handle: nullHandler,
+        })
+        expect(validateRoute(route)).toStrictEqual([
+            'POST /items: Path parameter "itemId" does not appear in the route path.',
+            'POST /items: Dependency cycle "dep1" -> "dep2" -> "dep1".',
+            'POST /items: Multiple Body parameters "body1", "body2", only one is allowed per route unless all are embedded.',
+            'POST /items: Parameters "page", "p", "filters.p" read the same query key "p".',
+            'POST /items: Parameters "x_token", "token" read the same header key "x-token".',
+        ])
+    })
+
+    test("[invocation]: return value problems app scope", () => {
+        const session = new Dependency({ name: "session", handle: nullHandler })
+        const config = new Dependency({ name: "config", scope: "app", handle: nullHandler })
+        const tenant = new Dependency({
+            name: "tenant",
+            scope: "app",
+            parameters: {
+                x_tenant: Header(z.string()),
+                session: Depends(session),
+                config: Depends(config),
+            },
+            handle: nullHandler,
+        })
+        const route = new Route({
+            method: "GET",
+            path: "/",
+            parameters: { tenant: Depends(tenant) },
+            handle: nullHandler,
+        })
+        expect(validateRoute(route)).toStrictEqual([
+            'GET /: App-scoped dependency "tenant" declares request parameter "x_tenant".',
+            'GET /: App-scoped dependency "tenant" depends on request-scoped dependency "session".',
+        ])
+    })
+})
+
 describe("class Route", () => {
     test("[constructor]: mutation", () => {
         const route = new Route({
@@ -165,6 +278,146 @@ describe("class RouteMatcher", () => {
         expect(routeOut3).toBeNull()
     })
 
+    test("[method] match: return value fallback handlers", () => {
+        const notFoundHandler = () => new Response(null, { status: 404 })
+        const methodNotAllowedHandler = () => new Response(null, { status: 405 })
+        router.set("/path/{to}", { notFoundHandler })
+        router.set("/path/{to}/route", { methodNotAllowedHandler })
+        const [, , , fallbackOut1] = router.match("GET", "/pat/12/route/abc/action")
+        const [, , , fallbackOut2] = router.match("GET", "/path/12/nothing")
+        const [, , , fallbackOut3] = router.match("DELETE", "/path/ab/route/123")
+        expect(fallbackOut1).toStrictEqual({
+            notFoundHandler: undefined,
+            methodNotAllowedHandler: undefined,
+        })
+        expect(fallbackOut2).toStrictEqual({
+            notFoundHandler,
+            methodNotAllowedHandler: undefined,
+        })
+        expect(fallbackOut3).toStrictEqual({ notFoundHandler, methodNotAllowedHandler })
+    })
+
+    test("[method] openapi: embedded body schema", () => {
+        const route = new Route({
+            method: "POST",
+            path: "/items",
+            parameters: {
+                item: Body(z.object({ name: z.string() }), { embed: true }),
+                user: Body(z.object({ id: z.number() }), { embed: true }),
+            },
+            handle: nullHandler,
+        })
+        expect(validateRoute(route)).toStrictEqual([])
+        const schema = (route.openapi().request?.body?.content["application/json"] as any)
+            .schema as z.ZodObject<any>
+        expect(Object.keys(schema.shape)).toStrictEqual(["item", "user"])
+
+        const route2 = new Route({
+            method: "POST",
+            path: "/items",
+            parameters: {
+                item: Body(z.object({ name: z.string() }), {
+                    embed: true,
+                    mediaTypes: ["application/json", "application/msgpack"],
+                }),
+                user: Body(z.object({ id: z.number() }), {
+                    embed: true,
+                    mediaTypes: ["application/msgpack"],
+                }),
+            },
+            handle: nullHandler,
+        })
+        const content2 = route2.openapi().request?.body?.content
+        expect(Object.keys(content2!)).toStrictEqual(["application/msgpack"])
+
+        const route3 = new Route({
+            method: "POST",
+            path: "/items",
+            parameters: {
+                item: Body(z.object({ name: z.string() }), { embed: true }),
+                meta: Body(z.object({ version: z.number() })),
+            },
+            handle: nullHandler,
+        })
+        const schema3 = (route3.openapi().request?.body?.content["application/json"] as any)
+            .schema as z.ZodIntersection<z.ZodObject<any>, z.ZodObject<any>>
+        expect(schema3).toBeInstanceOf(z.ZodIntersection)
+        expect(Object.keys(schema3.def.left.shape)).toStrictEqual(["version"])
+        expect(Object.keys(schema3.def.right.shape)).toStrictEqual(["item"])
+    })
+
+    test("[method] openapi: grouped parameters", () => {
+        const route = new Route({
+            method: "GET",
+            path: "/items",
+            parameters: {
+                filters: Queries(z.object({ status: z.string(), page: z.number() })),
+                meta: Headers(z.object({ x_request_id: z.string() })),
+                prefs: Cookies(z.object({ theme: z.string().optional() })),
+            },
+            handle: nullHandler,
+        })
+        const openapi = route.openapi()
+        expect(Object.keys((openapi.request?.query as z.ZodObject<any>).shape)).toStrictEqual([
+            "status",
+            "page",
+        ])
+        expect(Object.keys((openapi.request?.headers as z.ZodObject<any>).shape)).toStrictEqual([
+            "x-request-id",
+        ])
+        expect(Object.keys((openapi.request?.cookies as z.ZodObject<any>).shape)).toStrictEqual([
+            "theme",
+        ])
+    })
+
+    test("[method] openapi: query deep object style", () => {
+        const route = new Route({
+            method: "GET",
+            path: "/items",
+            parameters: {
+                filter: Query(z.object({ status: z.string() }).describe("Filters"), {
+                    style: "deepObject",
+                }),
+                ids: Query(z.number().array(), { style: "deepObject" }),
+            },
+            handle: nullHandler,
+        })
+        const shape = (route.openapi().request?.query as z.ZodObject<any>).shape
+        expect(Object.keys(shape)).toStrictEqual(["filter", "ids[]"])
+        expect(shape.filter.meta()).toStrictEqual({
+            description: "Filters",
+            param: { style: "deepObject", explode: true },
+        })
+        expect(shape["ids[]"].meta()).toStrictEqual({ param: { style: "form", explode: true } })
+    })
+
+    test("[method] openapi: query and header collection styles", () => {
+        const route = new Route({
+            method: "GET",
+            path: "/items",
+            parameters: {
+                ids: Query(z.number().array().describe("Identifiers"), { explode: false }),
+                tags: Query(z.string().array(), { style: "pipeDelimited" }),
+                plain: Query(z.string().array()),
+                X_Tags: Header(z.string().array()),
+            },
+            handle: nullHandler,
+        })
+        const request = route.openapi().request!
+        const query = (request.query as z.ZodObject<any>).shape
+        expect(query.ids.meta()).toStrictEqual({
+            description: "Identifiers",
+            param: { style: "form", explode: false },
+        })
+        expect(query.tags.meta()).toStrictEqual({
+            param: { style: "pipeDelimited", explode: false },
+        })
+        expect(query.plain.meta()).toBeUndefined()
+        expect((request.headers as z.ZodObject<any>).shape["X-Tags"].meta()).toStrictEqual({
+            param: { style: "simple", explode: false },
+        })
+    })
+
     test("[method] openapi: parameters schema inclusion", () => {
         const dep = new Dependency({
             parameters: {